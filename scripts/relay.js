@@ -0,0 +1,169 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ *
+ * Lockstep relay. Forwards all messages from a client to every other
+ * client connected to the same path (ex. ws://localhost:8081/my-game).
+ *
+ * Usage: node scripts/relay.js [port]
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const port = parseInt(process.argv[2] || process.env.RELAY_PORT || '8081', 10);
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeUInt32BE(0, 2);
+    header.writeUInt32BE(length, 6);
+  }
+
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+const decodeFrames = (client) => {
+  const frames = [];
+  let buffer = client.buffer;
+
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) {
+        break;
+      }
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) {
+        break;
+      }
+      length = buffer.readUInt32BE(6);
+      offset = 10;
+    }
+
+    const maskOffset = offset;
+    if (masked) {
+      offset += 4;
+    }
+
+    if (buffer.length < offset + length) {
+      break;
+    }
+
+    const payload = Buffer.from(buffer.slice(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+    }
+
+    frames.push({ fin, opcode, payload });
+    buffer = buffer.slice(offset + length);
+  }
+
+  client.buffer = buffer;
+  return frames;
+};
+
+const leave = (client) => {
+  const room = rooms.get(client.room);
+  if (room) {
+    room.delete(client);
+    if (room.size === 0) {
+      rooms.delete(client.room);
+    }
+  }
+
+  console.log('relay', 'leave', client.room, room ? room.size : 0);
+};
+
+const broadcast = (client, payload) => {
+  const frame = encodeFrame(0x1, payload);
+  const room = rooms.get(client.room) || new Set();
+
+  for (let other of room) {
+    if (other !== client) {
+      other.socket.write(frame);
+    }
+  }
+};
+
+const onData = (client, data) => {
+  client.buffer = Buffer.concat([client.buffer, data]);
+
+  for (let { fin, opcode, payload } of decodeFrames(client)) {
+    if (opcode === 0x8) {
+      client.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    } else if (opcode === 0x9) {
+      client.socket.write(encodeFrame(0xa, payload));
+    } else if (opcode === 0x1 || opcode === 0x0) {
+      client.fragments.push(payload);
+
+      if (fin) {
+        broadcast(client, Buffer.concat(client.fragments));
+        client.fragments = [];
+      }
+    }
+  }
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('cncjs lockstep relay\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto.createHash('sha1')
+    .update(key + GUID)
+    .digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  const client = { socket, room: req.url || '/', buffer: Buffer.alloc(0), fragments: [] };
+  if (!rooms.has(client.room)) {
+    rooms.set(client.room, new Set());
+  }
+  rooms.get(client.room).add(client);
+  console.log('relay', 'join', client.room, rooms.get(client.room).size);
+
+  socket.setNoDelay(true);
+  socket.on('data', data => onData(client, data));
+  socket.on('close', () => leave(client));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(port, () => console.log('relay', `listening on ws://localhost:${port}`));
@@ -40,11 +40,19 @@ export class DataArchive extends EventEmitter {
    * Fetches the data archive
    */
   public async fetch(): Promise<void> {
-    const zip = new JSZip();
     const arrayBuffer = await fetchArrayBufferXHR(this.source, this);
     const blob = new Blob([arrayBuffer], { type: 'application/zip' });
 
-    this.archive = await zip.loadAsync(blob);
+    return this.load(blob);
+  }
+
+  /**
+   * Loads the data archive from memory
+   */
+  public async load(data: ArrayBuffer | Uint8Array | Blob): Promise<void> {
+    const zip = new JSZip();
+
+    this.archive = await zip.loadAsync(data);
   }
 
   /**
@@ -5,6 +5,7 @@
  */
 import { Vector } from 'vector2d';
 import { Box } from './physics';
+import { createCanvas } from './headless';
 
 /**
  * Entity
@@ -12,7 +13,7 @@ import { Box } from './physics';
 export class Entity {
   protected position: Vector = new Vector(0, 0);
   protected dimension: Vector = new Vector(0, 0);
-  protected readonly canvas: HTMLCanvasElement = document.createElement('canvas');
+  protected readonly canvas: HTMLCanvasElement = createCanvas();
   protected readonly context: CanvasRenderingContext2D = this.canvas.getContext('2d') as CanvasRenderingContext2D;
   protected destroyed: boolean = false;
 
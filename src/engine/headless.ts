@@ -0,0 +1,106 @@
+/**
+ * tesen - Simple TypeScript 2D Canvas Game Engine
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+
+type HeadlessContextMethod = 'arc' | 'beginPath' | 'clearRect' | 'closePath' | 'drawImage' | 'fill' | 'fillRect' | 'fillText' | 'lineTo' | 'moveTo' | 'putImageData' | 'restore' | 'save' | 'scale' | 'setTransform' | 'stroke' | 'strokeRect' | 'strokeText' | 'translate';
+
+/**
+ * The parts of a rendering context that works without a DOM
+ */
+export type HeadlessRenderingContext = Pick<CanvasRenderingContext2D, HeadlessContextMethod | 'createPattern' | 'getImageData'> & {
+  measureText(text: string): Pick<TextMetrics, 'width'>;
+};
+
+/**
+ * The parts of a canvas element that works without a DOM
+ */
+export interface HeadlessCanvasElement {
+  width: number;
+  height: number;
+  readonly style: Partial<CSSStyleDeclaration>;
+  readonly classList: Pick<DOMTokenList, 'add' | 'remove'>;
+  getContext(contextId: '2d'): HeadlessRenderingContext;
+  toDataURL(type?: string): string;
+  addEventListener(type: string, listener: EventListener): void;
+  removeEventListener(type: string, listener: EventListener): void;
+}
+
+const noop = (): void => {};
+
+/**
+ * Canvas that does not render anything
+ */
+export class HeadlessCanvas implements HeadlessCanvasElement {
+  public width: number = 0;
+  public height: number = 0;
+  public readonly style: Partial<CSSStyleDeclaration> = {};
+  public readonly classList: Pick<DOMTokenList, 'add' | 'remove'> = { add: noop, remove: noop };
+  private readonly context: HeadlessRenderingContext;
+
+  public constructor() {
+    // NOTE: Drawing does nothing when headless
+    const methods: { [Key in HeadlessContextMethod]: () => void } = {
+      arc: noop,
+      beginPath: noop,
+      clearRect: noop,
+      closePath: noop,
+      drawImage: noop,
+      fill: noop,
+      fillRect: noop,
+      fillText: noop,
+      lineTo: noop,
+      moveTo: noop,
+      putImageData: noop,
+      restore: noop,
+      save: noop,
+      scale: noop,
+      setTransform: noop,
+      stroke: noop,
+      strokeRect: noop,
+      strokeText: noop,
+      translate: noop
+    };
+
+    this.context = {
+      ...methods,
+      createPattern: () => null,
+      measureText: (text: string) => ({ width: 0 }),
+      getImageData: (sx: number, sy: number, sw: number, sh: number) => ({
+        width: sw,
+        height: sh,
+        data: new Uint8ClampedArray(sw * sh * 4)
+      })
+    };
+  }
+
+  public getContext(contextId: '2d'): HeadlessRenderingContext {
+    return this.context;
+  }
+
+  public toDataURL(type?: string): string {
+    return '';
+  }
+
+  public addEventListener(type: string, listener: EventListener): void {
+  }
+
+  public removeEventListener(type: string, listener: EventListener): void {
+  }
+}
+
+/**
+ * Checks if we are running without a DOM (ex. Node)
+ */
+export const isHeadless = (): boolean => typeof document === 'undefined';
+
+/**
+ * Creates a new canvas, or a headless one when there is no DOM.
+ *
+ * NOTE: Headless canvases only implements HeadlessCanvasElement, which is
+ * everything the engine uses from a canvas when there is nothing to render.
+ */
+export const createCanvas = (): HTMLCanvasElement => isHeadless()
+  ? new HeadlessCanvas() as HeadlessCanvasElement as HTMLCanvasElement
+  : document.createElement('canvas');
@@ -9,12 +9,14 @@ export * from './archive';
 export * from './core';
 export * from './engine';
 export * from './entity';
+export * from './headless';
 export * from './image';
 export * from './io';
 export * from './keyboard';
 export * from './mouse';
 export * from './physics';
 export * from './playlist';
+export * from './random';
 export * from './scene';
 export * from './sound';
 export * from './sprite';
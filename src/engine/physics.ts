@@ -35,6 +35,7 @@ export const collidePoint = (point: Vector, box: Box): boolean =>
 
 /**
  * Gets a random integer min/max-ed
+ * @deprecated Not seedable, use Random
  */
 export const randomBetweenInteger = (min: number, max: number): number =>
   Math.floor(Math.random() * max) + min;
@@ -0,0 +1,68 @@
+/**
+ * tesen - Simple TypeScript 2D Canvas Game Engine
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+
+/**
+ * Creates a random seed
+ */
+export const randomSeed = (): number =>
+  Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+/**
+ * Seedable pseudo random number generator (mulberry32).
+ * Same seed gives the same sequence on all platforms.
+ */
+export class Random {
+  private readonly seed: number;
+  private state: number;
+
+  public constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  public toString(): string {
+    return `${this.seed}:${this.state}`;
+  }
+
+  /**
+   * Gets next number in range [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Gets a random integer between min and max (inclusive)
+   */
+  public between(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Picks a random element from a list
+   */
+  public pick<T>(list: T[]): T | undefined {
+    return list.length > 0 ? list[this.between(0, list.length - 1)] : undefined;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+}
@@ -4,13 +4,14 @@
  * @license MIT
  */
 import { Vector } from 'vector2d';
+import { createCanvas } from './headless';
 
 /**
  * Sprite
  * TODO: Should really have been an Entity
  */
 export class Sprite {
-  public readonly canvas: HTMLCanvasElement = document.createElement('canvas');
+  public readonly canvas: HTMLCanvasElement = createCanvas();
   public readonly context: CanvasRenderingContext2D = this.canvas.getContext('2d') as CanvasRenderingContext2D;
   public readonly source: string;
   public readonly clip: number[];
@@ -71,7 +72,7 @@ export class Sprite {
     sy = yoff;
 
     let cached = this.frameCache.get(frame.toString());
-    let canvas = cached ? cached.canvas : document.createElement('canvas');
+    let canvas = cached ? cached.canvas : createCanvas();
 
     if (!cached) {
       canvas.width = dw;
@@ -103,7 +104,7 @@ export class Sprite {
     const sw = this.size.x;
     const sh = this.size.y;
 
-    const tempCanvas = document.createElement('canvas');
+    const tempCanvas = createCanvas();
     tempCanvas.width = sw;
     tempCanvas.height = sh;
 
@@ -128,6 +129,13 @@ export class Sprite {
       this.canvas.width = image.width;
       this.canvas.height = image.height;
       this.context.drawImage(image, 0, 0);
+
+      // NOTE: Sprites without a size has square frames stacked on top of each other
+      if (this.size.x === 0 && this.frames > 0) {
+        const size = Math.floor(image.height / this.frames);
+        this.size.setX(size);
+        this.size.setY(size);
+      }
     }
   }
 
@@ -0,0 +1,610 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { DataArchive } from '../../engine';
+import { MIX, MIXMapData, MIXPlayerName, MIXSaveGame } from '../mix';
+import { GameHeadlessSimulation } from '../headless';
+import { LoopbackHub } from '../lockstep';
+import { GameMapDesync } from '../checksum';
+import { GameMapEntity } from '../entities/mapentity';
+import { GameEntity } from '../entity';
+import { UnitEntity } from '../entities/unit';
+import { TiberiumEntity, TIBERIUM_MAX } from '../entities/tiberium';
+import { GameMapLocomotor, PATHS_PER_TICK } from '../pathfinding';
+import { INFANTRY_PER_CELL } from '../occupancy';
+import { GameReplayPlayback, GameReplayRecorder } from '../replay';
+import { loadSaveGame, validateSaveGame, SAVE_VERSION } from '../save';
+import { GameCampaign, getMissionNumber } from '../campaign';
+import { Vector } from 'vector2d';
+
+const GAME_DATA = path.resolve(__dirname, '../../../data/GAME.DAT');
+
+/**
+ * Rules from the repository. Sprites are not needed without rendering.
+ */
+const createMix = async (): Promise<MIX> => {
+  const zip = new JSZip();
+  fs.readdirSync(GAME_DATA)
+    .forEach(name => zip.file(`GAME.DAT/${name}`, fs.readFileSync(path.join(GAME_DATA, name))));
+
+  const archive = new DataArchive('data.zip');
+  await archive.load(await zip.generateAsync({ type: 'uint8array' }));
+
+  const mix = new MIX(archive);
+  await mix.parse();
+  return mix;
+};
+
+const createMapData = (): MIXMapData => ({
+  map: { theatre: 'temperate', size: new Vector(20, 20), offset: new Vector(0, 0) },
+  basic: { BuildLevel: 1 } as any,
+  tiles: Array.from({ length: 64 }, () => Array.from({ length: 64 }, () => ({ name: 'CLEAR1', index: 0, passable: true, land: 'Clear' }))) as any,
+  waypoints: [],
+  terrain: [],
+  smudge: [],
+  overlays: [{ name: 'TI1', cell: new Vector(8, 8) }],
+  infantry: [{ name: 'E1', cell: new Vector(3, 3), player: 0, health: 256, subcell: 0 }],
+  structures: [{ name: 'GUN', cell: new Vector(16, 3), player: 1, health: 256 }],
+  units: [
+    { name: 'MTNK', cell: new Vector(2, 2), player: 0, health: 256 },
+    { name: 'LTNK', cell: new Vector(14, 14), player: 1, health: 256 }
+  ],
+  triggers: [],
+  cellTriggers: [],
+  teamTypes: [],
+  base: { count: 0, structures: [] },
+  players: {
+    GoodGuy: { Credits: 10, Edge: 'North' },
+    BadGuy: { Credits: 5, Edge: 'South' }
+  } as any
+});
+
+const getEntityId = (sim: GameHeadlessSimulation, name: string): number =>
+  sim.map.getEntities().find(e => e.getName() === name)!.id;
+
+const createSimulation = async (mix: MIX, player: MIXPlayerName = 'GoodGuy', save?: MIXSaveGame, data: MIXMapData = createMapData()): Promise<GameHeadlessSimulation> => {
+  const sim = new GameHeadlessSimulation('test', data, player, mix, 3);
+  await sim.init(save);
+  return sim;
+};
+
+/**
+ * Orders that makes units move and fight
+ */
+const dispatchOrders = (sim: GameHeadlessSimulation): void => {
+  sim.dispatch({ type: 'move', player: 0, entities: [getEntityId(sim, 'E1')], cell: { x: 12, y: 10 } });
+  sim.dispatch({ type: 'attack', player: 0, entities: [getEntityId(sim, 'MTNK')], target: getEntityId(sim, 'LTNK') });
+};
+
+describe('GameHeadlessSimulation', () => {
+  let mix: MIX;
+
+  beforeAll(async () => {
+    ['debug', 'log', 'info', 'warn', 'time', 'timeEnd', 'group', 'groupEnd']
+      .forEach(name => jest.spyOn(console, name as any).mockImplementation(() => {}));
+
+    mix = await createMix();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds entities to the simulation before their sprites are loaded', async () => {
+    const sim = await createSimulation(mix);
+    const loading = sim.map.factory.load('unit', { name: 'HARV', cell: new Vector(5, 5), player: 0 });
+
+    const entity = sim.map.getEntities().find(e => e.getName() === 'HARV');
+    expect(entity).toBeDefined();
+    expect(entity!.getHealth()).toBe(entity!.getHitPoints());
+
+    await loading;
+  });
+
+  it('gives the same result for the same input', async () => {
+    const a = await createSimulation(mix);
+    const b = await createSimulation(mix);
+    dispatchOrders(a);
+    dispatchOrders(b);
+
+    for (let i = 0; i < 10; i++) {
+      a.tick(30);
+      b.tick(30);
+      expect(a.map.checksums.compute()).toBe(b.map.checksums.compute());
+    }
+
+    expect(a.map.getEntityById(getEntityId(a, 'E1'))!.getCell()).not.toEqual(new Vector(3, 3));
+    expect(a.map.checksums.getSnapshot(270)).toBeUndefined();
+  });
+
+  it('continues the same after a save is restored', async () => {
+    const a = await createSimulation(mix);
+    dispatchOrders(a);
+    a.tick(97);
+
+    const save = JSON.parse(JSON.stringify(a.map.toJson()));
+    const b = await createSimulation(mix, 'GoodGuy', save);
+
+    expect(b.map.getEntities().map(e => e.id)).toEqual(a.map.getEntities().map(e => e.id));
+    expect(b.map.checksums.compute()).toBe(a.map.checksums.compute());
+
+    for (let i = 0; i < 5; i++) {
+      a.tick(50);
+      b.tick(50);
+      expect(b.map.checksums.compute()).toBe(a.map.checksums.compute());
+    }
+  });
+
+  it('migrates and validates saves from older versions', async () => {
+    const a = await createSimulation(mix);
+    const { name, player, seed, entities } = JSON.parse(JSON.stringify(a.map.toJson()));
+    const save = loadSaveGame({ name, player, seed, entities: [...entities, { name: 'BOMB', cell: { x: 1, y: 1 } }] });
+
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.entities.map(e => e.name)).toEqual(entities.map((e: any) => e.name));
+    expect(validateSaveGame(save)).toEqual([]);
+
+    expect(() => loadSaveGame('save')).toThrow();
+    expect(validateSaveGame({ ...save, player: 'Nobody', entities: [{ type: 'unit', name: 'MTNK' }] })).toEqual([
+      'Invalid player \'Nobody\'',
+      'Entity #0 MTNK has an invalid cell'
+    ]);
+  });
+
+  it('restores projectiles that are in flight', async () => {
+    const a = await createSimulation(mix);
+    dispatchOrders(a);
+
+    let ticks = 0;
+    while (!a.map.getEntities().some(e => e.toJson().type === 'projectile') && ticks++ < 1000) {
+      a.tick();
+    }
+
+    const save = JSON.parse(JSON.stringify(a.map.toJson()));
+    expect(save.entities.some((e: any) => e.type === 'projectile')).toBe(true);
+
+    const b = await createSimulation(mix, 'GoodGuy', save);
+    const ids = (sim: GameHeadlessSimulation) => sim.map.getEntities().filter(e => !e.isCosmetic()).map(e => e.id);
+    expect(ids(b)).toEqual(ids(a));
+
+    for (let i = 0; i < 10; i++) {
+      a.tick(10);
+      b.tick(10);
+      expect(b.map.checksums.compute()).toBe(a.map.checksums.compute());
+    }
+  });
+
+  it('plays back a replay recorded from a loaded game', async () => {
+    const a = await createSimulation(mix);
+    dispatchOrders(a);
+    a.tick(97);
+
+    const save = JSON.parse(JSON.stringify(a.map.toJson()));
+    const b = await createSimulation(mix, 'GoodGuy', save);
+    const recorder = new GameReplayRecorder(b.map, save);
+    b.dispatch({ type: 'move', player: 0, entities: [getEntityId(b, 'MTNK')], cell: { x: 10, y: 12 } });
+    b.dispatch({ type: 'move', player: 1, entities: [getEntityId(b, 'LTNK')], cell: { x: 6, y: 4 } });
+    b.tick(200);
+
+    const replay = JSON.parse(JSON.stringify(recorder.toJson()));
+    expect(replay.commands.some((c: any) => c.player === 1)).toBe(true);
+
+    const c = await createSimulation(mix, replay.player, replay.save);
+    const playback = new GameReplayPlayback(replay, c.map);
+    playback.init();
+
+    let desyncs = 0;
+    c.map.checksums.on('desync', () => desyncs++);
+    while (!playback.isFinished()) {
+      c.tick();
+    }
+
+    expect(desyncs).toBe(0);
+    expect(c.map.checksums.compute()).toBe(b.map.checksums.compute());
+  });
+
+  it('reports what differs when a replay desyncs', async () => {
+    const a = await createSimulation(mix);
+    const recorder = new GameReplayRecorder(a.map);
+    dispatchOrders(a);
+    a.tick(100);
+
+    const replay = JSON.parse(JSON.stringify(recorder.toJson()));
+    const [tick, snapshot] = replay.snapshots[1];
+    const entity = snapshot.entities.find((e: any) => e.name === 'MTNK');
+    entity.health--;
+    replay.checksums[1][1]++;
+
+    const b = await createSimulation(mix, replay.player);
+    const playback = new GameReplayPlayback(replay, b.map);
+    playback.init();
+
+    const desyncs: GameMapDesync[] = [];
+    b.map.checksums.on('desync', (desync: GameMapDesync) => desyncs.push(desync));
+    while (!playback.isFinished()) {
+      b.tick();
+    }
+
+    expect(desyncs.length).toBe(1);
+    expect(desyncs[0].tick).toBe(tick);
+    expect(desyncs[0].diff).toEqual([`#${entity.id} MTNK health: ${entity.health + 1} != ${entity.health}`]);
+  });
+
+  it('drives a team through its script and loops it', async () => {
+    const data = createMapData();
+    data.waypoints.push(
+      { id: 0, name: 'waypoint0', cell: new Vector(14, 9) },
+      { id: 1, name: 'waypoint1', cell: new Vector(10, 14) }
+    );
+    data.teamTypes.push({
+      name: 'patrol',
+      teamName: 'BadGuy',
+      toggleAlt: false,
+      toggleLink: false,
+      autocreate: false,
+      replaceTeam: false,
+      forceReplaceTeam: false,
+      units: [{ name: 'LTNK', count: 1 }],
+      actions: [{ name: 'Move', arg: 0 }, { name: 'Guard', arg: 1 }, { name: 'Move', arg: 1 }, { name: 'Loop', arg: 0 }]
+    });
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const team = sim.map.teams.create('patrol', sim.map.getPlayerByName('BadGuy')!)!;
+    const [tank] = team.getMembers();
+    expect(tank.getName()).toBe('LTNK');
+
+    const steps: string[] = [];
+    for (let i = 0; i < 3000 && steps.length < 6; i++) {
+      sim.tick();
+
+      const action = team.getCurrentAction()!;
+      const step = `${action.name}:${action.arg}`;
+      if (steps[steps.length - 1] !== step) {
+        steps.push(step);
+      }
+
+      if (step === 'Guard:1') {
+        expect(tank.getCell()).toEqual(new Vector(14, 9));
+      }
+    }
+
+    expect(steps).toEqual(['Move:0', 'Guard:1', 'Move:1', 'Loop:0', 'Move:0', 'Guard:1']);
+    expect(team.isDisbanded()).toBe(false);
+  });
+
+  it('rebuilds missing structures from the base list', async () => {
+    const data = createMapData();
+    data.players.BadGuy.Credits = 50;
+    data.structures.push(
+      { name: 'FACT', cell: new Vector(12, 2), player: 1, health: 256 },
+      { name: 'NUKE', cell: new Vector(12, 6), player: 1, health: 256 }
+    );
+    data.base = { player: 'BadGuy', count: 1, structures: [{ name: 'NUKE', cell: new Vector(12, 6) }] };
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const player = sim.map.getPlayerByName('BadGuy')!;
+    const isPowerPlant = (e: GameEntity) => e.getName() === 'NUKE' && e.player === player && !e.isDestroyed();
+
+    sim.map.getEntities().find(isPowerPlant)!.takeDamage(1000);
+    player.setProduction(true);
+    sim.tick();
+    expect(sim.map.getEntities().some(isPowerPlant)).toBe(false);
+
+    const credits = player.getCredits();
+    for (let i = 0; i < 5000 && !sim.map.getEntities().some(isPowerPlant); i++) {
+      sim.tick();
+    }
+
+    const rebuilt = sim.map.getEntities().find(isPowerPlant)!;
+    expect(rebuilt).toBeDefined();
+    expect(rebuilt.getCell()).toEqual(new Vector(12, 6));
+    expect(player.getCredits()).toBeLessThan(credits);
+  });
+
+  it('rates leadership from the kills and losses of a house', async () => {
+    const sim = await createSimulation(mix);
+    const [good, bad] = (['GoodGuy', 'BadGuy'] as MIXPlayerName[]).map(name => sim.map.getPlayerByName(name)!);
+    const entity = (id: number) => sim.map.getEntityById(id)!;
+    const [e1, mtnk, ltnk, gun] = ['E1', 'MTNK', 'LTNK', 'GUN'].map(name => entity(getEntityId(sim, name)));
+    const { statistics } = sim.map;
+
+    expect(statistics.getLeadership(good)).toBe(100);
+
+    statistics.onEntityDestroyed(ltnk, mtnk);
+    expect(statistics.getLeadership(good)).toBe(100);
+    expect(statistics.getLeadership(bad)).toBe(0);
+
+    statistics.onEntityDestroyed(e1, ltnk);
+    statistics.onEntityDestroyed(gun, mtnk);
+    expect(statistics.getLeadership(good)).toBe(67);
+    expect(statistics.getLeadership(bad)).toBe(33);
+    expect(statistics.getScore().leadership).toBe(67);
+  });
+
+  it('grows tiberium patches and spreads fully grown ones', async () => {
+    const data = createMapData();
+    data.overlays.push({ name: 'TI2', cell: new Vector(12, 8) });
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const patches = () => sim.map.getEntities().filter(e => e.isTiberium() && !e.isDestroyed()) as TiberiumEntity[];
+    const [growing, harvested] = patches();
+    growing.setTiberium(5);
+    harvested.setTiberium(0);
+
+    sim.map.growth.grow();
+    expect(growing.getState().tiberium).toBe(6);
+    expect(harvested.hasTiberium()).toBe(false);
+
+    growing.setTiberium(TIBERIUM_MAX);
+    for (let i = 0; i < 50 && patches().length < 3; i++) {
+      sim.map.growth.grow();
+    }
+
+    const spread = patches().filter(e => e !== growing && e !== harvested);
+    expect(spread.length).toBe(1);
+    expect(spread[0].getCell().distance(growing.getCell())).toBeLessThan(2);
+    expect(harvested.hasTiberium()).toBe(false);
+  });
+
+  it('gets the cost of moving into a cell per locomotor', async () => {
+    const data = createMapData();
+    data.tiles[5][5] = { ...data.tiles[5][5], land: 'Rough' };
+    data.tiles[5][6] = { ...data.tiles[5][6], passable: false };
+    data.tiles[5][7] = { ...data.tiles[5][7], passable: false, land: 'Water' };
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const cost = (x: number, locomotor: GameMapLocomotor) => sim.map.getMovementCost(new Vector(x, 5), locomotor);
+
+    expect(cost(5, 'Foot')).toBeLessThan(cost(5, 'Wheel'));
+    expect(cost(4, 'Track')).toBeLessThan(cost(5, 'Track'));
+    expect(cost(5, 'Float')).toBe(Infinity);
+
+    expect(cost(6, 'Foot')).toBe(Infinity);
+    expect(cost(6, 'Track')).toBe(Infinity);
+
+    expect(cost(7, 'Track')).toBe(Infinity);
+    expect(cost(7, 'Float')).toBe(1);
+    expect(cost(7, 'Hover')).toBe(1);
+  });
+
+  it('finds naval paths over water only', async () => {
+    const data = createMapData();
+    for (let x = 0; x < 20; x++) {
+      data.tiles[10][x] = { ...data.tiles[10][x], land: 'Water' };
+    }
+    for (let y = 10; y < 20; y++) {
+      data.tiles[y][17] = { ...data.tiles[y][17], land: 'Water' };
+    }
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const { pathfinder } = sim.map;
+    const isWater = (cell: Vector) => data.tiles[cell.y][cell.x].land === 'Water';
+
+    const naval = pathfinder.findPath(new Vector(2, 10), new Vector(17, 18), false, 'Float')!;
+    expect(naval.length).toBeGreaterThan(0);
+    expect(naval.every(isWater)).toBe(true);
+
+    expect(pathfinder.findPath(new Vector(2, 10), new Vector(2, 4), false, 'Float')).toEqual([]);
+    expect(pathfinder.findPath(new Vector(2, 4), new Vector(2, 15), false, 'Track')).toEqual([]);
+
+    const hover = pathfinder.findPath(new Vector(2, 4), new Vector(2, 15), false, 'Hover')!;
+    expect(hover.some(isWater)).toBe(true);
+  });
+
+  it('lets up to five infantry share a cell', async () => {
+    const data = createMapData();
+    for (let i = 0; i < 5; i++) {
+      data.infantry.push({ name: 'E1', cell: new Vector(2 + i, 6), player: 0, health: 256, subcell: 0 });
+    }
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const infantry = sim.map.getEntities().filter(e => e.isInfantry());
+    const destination = new Vector(10, 12);
+    infantry.forEach(e => sim.dispatch({ type: 'move', player: 0, entities: [e.id], cell: destination.toObject() }));
+    sim.tick();
+    for (let i = 0; i < 2000 && infantry.some(e => e.isMoving()); i++) {
+      sim.tick();
+    }
+
+    const inside = infantry.filter(e => e.getCell().equals(destination)) as GameMapEntity[];
+    expect(infantry.length).toBe(6);
+    expect(inside.length).toBe(INFANTRY_PER_CELL);
+    expect(new Set(inside.map(e => e.getSubCell())).size).toBe(INFANTRY_PER_CELL);
+
+    const [outside] = infantry.filter(e => inside.indexOf(e as GameMapEntity) === -1);
+    expect(outside.getCell().distance(destination)).toBeLessThan(2);
+  });
+
+  it('gives a large group paths from one flow field on the first tick', async () => {
+    const data = createMapData();
+    for (let i = 0; i < 10; i++) {
+      data.units.push({ name: 'MTNK', cell: new Vector(2 + (i % 5), 8 + Math.floor(i / 5)), player: 0, health: 256 });
+    }
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const group = sim.map.getEntities().filter(e => e.getName() === 'MTNK') as GameMapEntity[];
+    sim.dispatch({ type: 'move', player: 0, entities: group.map(e => e.id), cell: { x: 15, y: 10 } });
+    sim.tick();
+
+    expect(group.length).toBeGreaterThan(PATHS_PER_TICK);
+    expect(group.every(e => !e.getPathRequest())).toBe(true);
+    expect(group.every(e => e.isMoving())).toBe(true);
+  });
+
+  it('flies in an airstrike that bombs the target and leaves', async () => {
+    const sim = await createSimulation(mix);
+    const target = sim.map.getEntityById(getEntityId(sim, 'GUN'))!;
+    const health = target.getHealth();
+
+    sim.map.reinforcements.airstrike(sim.map.getPlayerByName('GoodGuy')!, target.getCell());
+    expect(sim.map.getEntities().some(e => e.getName() === 'A10')).toBe(true);
+
+    sim.tick(100);
+    const save = JSON.parse(JSON.stringify(sim.map.toJson()));
+    const restored = await createSimulation(mix, 'GoodGuy', save);
+
+    for (let i = 0; i < 10; i++) {
+      sim.tick(50);
+      restored.tick(50);
+      expect(restored.map.checksums.compute()).toBe(sim.map.checksums.compute());
+    }
+
+    expect(target.getHealth()).toBeLessThan(health);
+    expect(sim.map.getEntities().some(e => e.getName() === 'A10')).toBe(false);
+  });
+
+  it('flies in reinforcements with a transport helicopter', async () => {
+    const sim = await createSimulation(mix);
+    const player = sim.map.getPlayerByName('GoodGuy')!;
+    const count = (s: GameHeadlessSimulation, name: string) => s.map.getEntities().filter(e => e.getName() === name).length;
+
+    const [transport] = sim.map.reinforcements.reinforce(['TRAN', 'E1', 'E1'], player, new Vector(10, 10));
+    expect(transport.getName()).toBe('TRAN');
+    expect(count(sim, 'E1')).toBe(1);
+
+    sim.tick(20);
+    const save = JSON.parse(JSON.stringify(sim.map.toJson()));
+    const restored = await createSimulation(mix, 'GoodGuy', save);
+
+    for (let i = 0; i < 20; i++) {
+      sim.tick(50);
+      restored.tick(50);
+      expect(restored.map.checksums.compute()).toBe(sim.map.checksums.compute());
+    }
+
+    expect(count(sim, 'E1')).toBe(3);
+    expect(count(restored, 'E1')).toBe(3);
+    expect(count(sim, 'TRAN')).toBe(0);
+  });
+
+  it('brings ground transports from the edge and hovercraft from the water', async () => {
+    const data = createMapData();
+    for (let x = 0; x < 20; x++) {
+      data.tiles[0][x] = { ...data.tiles[0][x], passable: x >= 8, land: x >= 14 ? 'Water' : 'Clear' };
+    }
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const player = sim.map.getPlayerByName('GoodGuy')!;
+    const passable = (e: GameEntity) => sim.map.getMovementCost(e.getCell(), (e as GameMapEntity).getLocomotor()) !== Infinity;
+
+    expect(sim.map.reinforcements.getMethod(['APC', 'E1', 'E1'])).toBe('edge');
+    const apc = sim.map.reinforcements.reinforce(['APC', 'E1', 'E1'], player, new Vector(2, 10));
+    expect(apc.map(e => e.getName())).toEqual(['APC', 'E1', 'E1']);
+    expect(apc.every(passable)).toBe(true);
+    expect(apc.some(e => sim.map.reinforcements.hasCargo(e))).toBe(false);
+
+    expect(sim.map.reinforcements.getMethod(['LST', 'E1'])).toBe('hover');
+    const [lst] = sim.map.reinforcements.reinforce(['LST', 'E1'], player, new Vector(16, 4));
+    expect(lst.getName()).toBe('LST');
+    expect(lst.getCell().x).toBeGreaterThanOrEqual(14);
+    expect(sim.map.reinforcements.hasCargo(lst)).toBe(true);
+  });
+
+  it('unloads harvesters at a refinery one at a time', async () => {
+    const data = createMapData();
+    data.structures.push({ name: 'PROC', cell: new Vector(8, 12), player: 0, health: 256 });
+    data.units.push(
+      { name: 'HARV', cell: new Vector(3, 17), player: 0, health: 256 },
+      { name: 'HARV', cell: new Vector(13, 17), player: 0, health: 256 }
+    );
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const player = sim.map.getPlayerByName('GoodGuy')!;
+    const proc = sim.map.getEntities().find(e => e.getName() === 'PROC')!;
+    const harvesters = sim.map.getEntities().filter(e => e.getName() === 'HARV') as UnitEntity[];
+    const value = mix.getGeneralRules().TiberiumValue;
+
+    harvesters.forEach(e => {
+      e.restoreState({ ...e.getState(), storageSlots: [3, e.getStorageSlots()] });
+      e.enter(proc);
+    });
+
+    const credits = player.getCredits();
+    let last = credits;
+    for (let i = 0; i < 2000 && harvesters.some(e => e.getStorageValue() > 0); i++) {
+      sim.tick();
+      expect(harvesters.filter(e => e.isDockedAt(proc)).length).toBeLessThanOrEqual(1);
+
+      const current = player.getCredits();
+      expect([0, value]).toContain(current - last);
+      last = current;
+    }
+
+    expect(player.getCredits()).toBe(credits + 6 * value);
+  });
+
+  it('evacuates civilians that reaches the drop zone', async () => {
+    const data = createMapData();
+    data.waypoints.push({ id: 25, name: 'flare', cell: new Vector(6, 12) });
+    data.infantry.push({ name: 'MOEBIUS', cell: new Vector(4, 12), player: 0, health: 256, subcell: 0 });
+
+    const sim = await createSimulation(mix, 'GoodGuy', undefined, data);
+    const player = sim.map.getPlayerByName('GoodGuy')!;
+    sim.dispatch({ type: 'move', player: 0, entities: [getEntityId(sim, 'MOEBIUS')], cell: { x: 6, y: 12 } });
+    sim.tick(300);
+
+    expect(player.getEvacuated()).toBe(1);
+    expect(sim.map.getEntities().some(e => e.getName() === 'MOEBIUS')).toBe(false);
+  });
+
+  it('stays in sync when played over lockstep', async () => {
+    const hub = new LoopbackHub();
+    const players: MIXPlayerName[] = ['GoodGuy', 'BadGuy'];
+    const sims = players.map(p => new GameHeadlessSimulation('test', createMapData(), p, mix, 7));
+    sims.forEach(s => s.setMultiplayer(hub.createTransport(), players));
+    await Promise.all(sims.map(s => s.init()));
+
+    let desyncs = 0;
+    sims.forEach(s => s.map.checksums.on('desync', () => desyncs++));
+
+    sims[0].dispatch({ type: 'move', player: 0, entities: [getEntityId(sims[0], 'MTNK')], cell: { x: 10, y: 3 } });
+    sims[1].dispatch({ type: 'move', player: 1, entities: [getEntityId(sims[1], 'LTNK')], cell: { x: 12, y: 8 } });
+
+    for (let i = 0; i < 300; i++) {
+      sims.forEach(s => s.tick());
+    }
+
+    expect(desyncs).toBe(0);
+    expect(sims[0].map.checksums.getSnapshot(270)!.entities.length).toBeGreaterThan(0);
+    expect(sims[0].engine.ticks).toBe(sims[1].engine.ticks);
+    expect(sims[0].map.checksums.compute()).toBe(sims[1].map.checksums.compute());
+  });
+});
+
+describe('GameCampaign', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('offers the branches of the next mission', () => {
+    const campaign = new GameCampaign('gdi');
+    expect(campaign.getNextMaps()).toEqual(['scg01ea']);
+
+    ['scg01ea', 'scg02ea', 'scg03ea'].forEach(name => campaign.complete(name, 0));
+    expect(campaign.getNextMaps()).toEqual(['scg04ea', 'scg04wa', 'scg04wb']);
+
+    campaign.complete('scg06ea', 0);
+    campaign.complete('SCG04WB', 0);
+    expect(campaign.getCompleted()).toEqual(['scg01ea', 'scg02ea', 'scg03ea', 'scg04wb']);
+    expect(campaign.getNextMaps().every(name => getMissionNumber(name) === 5)).toBe(true);
+  });
+
+  it('carries over a percentage of the credits up to the cap', () => {
+    const campaign = new GameCampaign('nod', { team: 'nod', completed: ['scb01ea'], credits: 5000 });
+    const basic = (CarryOverMoney: number, CarryOverCap: number) => ({ ...createMapData().basic, CarryOverMoney, CarryOverCap });
+
+    expect(campaign.getCarryOver(basic(0, -1))).toBe(0);
+    expect(campaign.getCarryOver(basic(50, -1))).toBe(2500);
+    expect(campaign.getCarryOver(basic(50, 10))).toBe(1000);
+    expect(campaign.getCarryOver(basic(100, 100))).toBe(5000);
+  });
+});
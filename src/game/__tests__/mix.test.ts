@@ -0,0 +1,126 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataArchive } from '../../engine';
+import { MIX, cellFromCoordinate, gdiMaps, mapBase, nodMaps } from '../mix';
+import { Vector } from 'vector2d';
+import * as INI from 'ini';
+
+/**
+ * Converted game assets (see README). The scenarios are not part of the repository,
+ * so the tests using them only runs where the assets are deployed.
+ */
+const DATA_ZIP = path.resolve(__dirname, '../../../dist/data.zip');
+
+const describeWithData = fs.existsSync(DATA_ZIP) ? describe : describe.skip;
+
+// Trimmed down [Base] section in the same format as the shipped scenarios
+const fixture = `
+[Base]
+Player=BadGuy
+Count=4
+003=GUN,805318656
+000=FACT,645929600
+002=NUKE,524297344
+001=PROC,645933696
+004=HQ,645929600
+`;
+
+describe('cellFromCoordinate', () => {
+  it('reads the cell from the high byte of each axis', () => {
+    // 0xYYyyXXxx: Y cell 0x26, X cell 0x1A, leptons 0x80
+    expect(cellFromCoordinate(0x26801A80, new Vector(0, 0))).toEqual(new Vector(0x1A, 0x26));
+  });
+
+  it('ignores the lepton bytes', () => {
+    expect(cellFromCoordinate(0x26001A00, new Vector(0, 0))).toEqual(new Vector(0x1A, 0x26));
+    expect(cellFromCoordinate(0x26FF1AFF, new Vector(0, 0))).toEqual(new Vector(0x1A, 0x26));
+  });
+
+  it('subtracts the map offset', () => {
+    expect(cellFromCoordinate(0x26801A80, new Vector(10, 20))).toEqual(new Vector(16, 18));
+  });
+
+  it('reads the last cell of the map', () => {
+    expect(cellFromCoordinate(0x3FFF3FFF, new Vector(0, 0))).toEqual(new Vector(63, 63));
+  });
+});
+
+describe('mapBase', () => {
+  const ini = INI.parse(fixture);
+  const base = mapBase(ini.Base, new Vector(0, 0));
+
+  it('reads the owner', () => {
+    expect(base.player).toBe('BadGuy');
+  });
+
+  it('orders structures by their key and not by file order', () => {
+    expect(base.structures.map(s => s.name)).toEqual(['FACT', 'PROC', 'NUKE', 'GUN']);
+  });
+
+  it('limits the list to Count', () => {
+    expect(base.count).toBe(4);
+    expect(base.structures.find(s => s.name === 'HQ')).toBeUndefined();
+  });
+
+  it('decodes the cell of each structure', () => {
+    expect(base.structures.map(s => [s.cell.x, s.cell.y])).toEqual([
+      [26, 38],
+      [42, 38],
+      [36, 31],
+      [48, 48]
+    ]);
+  });
+
+  it('uses every entry when Count is missing', () => {
+    const section = { ...ini.Base };
+    delete section.Count;
+    expect(mapBase(section, new Vector(0, 0)).count).toBe(5);
+  });
+
+  it('accepts a missing section', () => {
+    expect(mapBase({}, new Vector(0, 0))).toEqual({ player: undefined, count: 0, structures: [] });
+  });
+});
+
+describeWithData('MIX::loadMap()', () => {
+  let mix: MIX;
+
+  beforeAll(async () => {
+    ['debug', 'log', 'info', 'warn', 'time', 'timeEnd', 'group', 'groupEnd']
+      .forEach(name => jest.spyOn(console, name as any).mockImplementation(() => {}));
+
+    const archive = new DataArchive('data.zip');
+    await archive.load(fs.readFileSync(DATA_ZIP));
+
+    mix = new MIX(archive);
+    await mix.parse();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads the [Base] of the shipped scenarios', async () => {
+    let structures = 0;
+
+    for (let name of [...gdiMaps, ...nodMaps]) {
+      const { map, base } = await mix.loadMap(name);
+      expect(base.structures.length).toBeLessThanOrEqual(base.count);
+
+      for (let s of base.structures) {
+        const cell = s.cell.clone().add(map.offset);
+        expect(mix.getType(s.name)).toBe('structure');
+        expect(cell.x >= 0 && cell.x < 64 && cell.y >= 0 && cell.y < 64).toBe(true);
+      }
+
+      structures += base.structures.length;
+    }
+
+    expect(structures).toBeGreaterThan(0);
+  });
+});
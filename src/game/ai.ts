@@ -0,0 +1,214 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { ConstructionQueue, ConstructionObject } from './ui/construction';
+import { MIXMapBase, MIXSaveGameAI } from './mix';
+import { GameEntity } from './entity';
+import { GameMap } from './map';
+import { Player } from './player';
+
+/**
+ * How far away (in cells) from a structure enemies are considered a threat
+ */
+const BASE_DEFENSE_RADIUS = 8;
+
+/**
+ * Minimum amount of idle units before an attack wave is sent
+ */
+const ATTACK_WAVE_SIZE = 5;
+
+/**
+ * Computer controlled house
+ */
+export class GameMapAI {
+  public readonly player: Player;
+  private readonly map: GameMap;
+  private readonly structureQueue: ConstructionQueue;
+  private readonly factoryQueue: ConstructionQueue;
+  private lastTeamTick: number = 0;
+  private lastDefenseTick: number = 0;
+
+  public constructor(player: Player, map: GameMap) {
+    this.player = player;
+    this.map = map;
+
+    [this.structureQueue, this.factoryQueue] = map.createConstructionQueues(player);
+    this.structureQueue.on('ready', (item: ConstructionObject) => this.onStructureReady(item));
+  }
+
+  public toString(): string {
+    return `${this.player.getName()} ${this.player.isProducing() ? 'producing' : 'idle'}`;
+  }
+
+  public toJson(): MIXSaveGameAI {
+    return {
+      player: this.player.getName(),
+      lastTeamTick: this.lastTeamTick,
+      lastDefenseTick: this.lastDefenseTick
+    };
+  }
+
+  public restore(data: MIXSaveGameAI): void {
+    this.lastTeamTick = data.lastTeamTick;
+    this.lastDefenseTick = data.lastDefenseTick;
+  }
+
+  /**
+   * Makes decisions. Called periodically by the map.
+   */
+  public process(): void {
+    if (!this.player.isProducing()) {
+      return;
+    }
+
+    const ticks = this.map.getTicks();
+    const rules = this.map.engine.mix.getGeneralRules();
+    const ticksPerMinute = this.map.getTicksPerMinute();
+
+    this.processStructures();
+    this.processUnits();
+
+    if ((ticks - this.lastDefenseTick) >= rules.BaseDefenseDelay * ticksPerMinute) {
+      this.lastDefenseTick = ticks;
+      this.processDefense();
+    }
+
+    if ((ticks - this.lastTeamTick) >= rules.TeamDelay * ticksPerMinute) {
+      this.lastTeamTick = ticks;
+      this.processAttack();
+    }
+  }
+
+  /**
+   * Rebuilds missing structures from the base list, power plants first if low on power
+   */
+  protected processStructures(): void {
+    if (this.isBusy(this.structureQueue)) {
+      return;
+    }
+
+    const missing = this.getMissingStructures();
+    const power = ['NUKE', 'NUK2'];
+    const next = this.player.isLowPower()
+      ? missing.find(b => power.indexOf(b.name) !== -1) || missing[0]
+      : missing[0];
+
+    if (next) {
+      this.construct(this.structureQueue, next.name);
+    }
+  }
+
+  /**
+   * Produces units needed by the autocreate teams of this house
+   */
+  protected processUnits(): void {
+    if (this.isBusy(this.factoryQueue)) {
+      return;
+    }
+
+    const wanted = this.map.data.teamTypes
+      .filter(t => t.autocreate && t.teamName === this.player.getName())
+      .reduce((acc: string[], t) => [...acc, ...t.units.map(u => u.name)], []);
+
+    const available = this.factoryQueue.getAvailable()
+      .filter(o => !!o.properties)
+      .filter(o => wanted.length === 0 || wanted.indexOf(o.name) !== -1);
+
+    const item = this.map.random.pick(available);
+    if (item) {
+      this.construct(this.factoryQueue, item.name);
+    }
+  }
+
+  /**
+   * Sends idle units after enemies that are close to the base
+   */
+  protected processDefense(): void {
+    const structures = this.getEntities().filter(e => e.isStructure());
+
+    for (let structure of structures) {
+      const enemy = this.map.getClosestEnemy(structure, (e: GameEntity) => e.isSelectable());
+      if (enemy && enemy.getCell().distance(structure.getCell()) <= BASE_DEFENSE_RADIUS) {
+        this.map.commands.dispatch({
+          type: 'attack',
+          player: this.player.getId(),
+          entities: this.getIdleUnits().map(e => e.id),
+          target: enemy.id
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Launches an attack wave with idle units that is not part of a team
+   */
+  protected processAttack(): void {
+    const idle = this.getIdleUnits();
+
+    if (idle.length >= ATTACK_WAVE_SIZE) {
+      console.debug('GameMapAI::processAttack()', this.toString(), idle.length);
+      idle.forEach(e => e.hunt());
+    }
+  }
+
+  protected onStructureReady(item: ConstructionObject): void {
+    if (item.state !== 'ready') {
+      return;
+    }
+
+    const base = this.getMissingStructures().find(b => b.name === item.name);
+
+    if (base) {
+      this.map.commands.dispatch({
+        type: 'place',
+        player: this.player.getId(),
+        name: item.name,
+        cell: base.cell.toObject()
+      });
+    } else {
+      this.structureQueue.reset(item);
+    }
+  }
+
+  protected construct(queue: ConstructionQueue, name: string): void {
+    const item = queue.getAvailableByName(name);
+    if (item && this.player.getCredits() >= item.cost) {
+      this.map.commands.dispatch({
+        type: 'build',
+        player: this.player.getId(),
+        name,
+        action: 'build'
+      });
+    }
+  }
+
+  protected isBusy(queue: ConstructionQueue): boolean {
+    return queue.getAvailable().some(o => o.state !== undefined);
+  }
+
+  protected getMissingStructures(): MIXMapBase[] {
+    const base = this.map.data.base;
+    if (base.player && base.player !== this.player.getName()) {
+      return [];
+    }
+
+    return base.structures.filter(b => {
+      const found = this.map.getEntitiesFromCell(b.cell, (e: GameEntity) => e.isStructure() && !e.isDestroyed());
+      return found.length === 0;
+    });
+  }
+
+  protected getIdleUnits(): GameEntity[] {
+    return this.getEntities()
+      .filter(e => e.isMovable() && e.canAttack() && !e.isMoving())
+      .filter(e => !e.canHarvest() && !this.map.teams.isMember(e));
+  }
+
+  protected getEntities(): GameEntity[] {
+    return this.map.getEntities()
+      .filter(e => e.player === this.player && !e.isDestroyed());
+  }
+}
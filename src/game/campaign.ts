@@ -0,0 +1,112 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { MIXMapBasicData, MIXPlayerName, MIXSaveGameCampaign, MIXTeamName, gdiMaps, nodMaps } from './mix';
+
+/**
+ * Gets the mission number from a map name, ex. 'scg04wa' => 4
+ */
+export const getMissionNumber = (name: string): number => parseInt(name.substr(3, 2), 10);
+
+/**
+ * Campaign progression across missions.
+ * Maps sharing a mission number are branch choices, and the completed
+ * list records which branch was taken.
+ */
+export class GameCampaign {
+  public readonly team: MIXTeamName;
+  private completed: string[] = [];
+  private credits: number = 0;
+
+  public constructor(team: MIXTeamName, data?: MIXSaveGameCampaign) {
+    this.team = team;
+
+    if (data) {
+      this.completed = [...data.completed];
+      this.credits = data.credits;
+    }
+  }
+
+  public toString(): string {
+    return `${this.team} ${this.completed.length}/${this.getMissionCount()} ${this.credits}c`;
+  }
+
+  public toJson(): MIXSaveGameCampaign {
+    return {
+      team: this.team,
+      completed: [...this.completed],
+      credits: this.credits
+    };
+  }
+
+  /**
+   * Marks a mission as won and stores the credits left for carry-over
+   */
+  public complete(name: string, credits: number): void {
+    const n = name.toLowerCase();
+    if (this.getNextMaps().indexOf(n) === -1) {
+      console.warn('GameCampaign::complete()', 'Not a current mission', name);
+      return;
+    }
+
+    this.completed.push(n);
+    this.credits = credits;
+  }
+
+  /**
+   * Gets the credits carried over into a mission.
+   * CarryOverMoney is the percentage of credits kept, and CarryOverCap is
+   * the maximum amount (divided by 100) where -1 is no limit.
+   */
+  public getCarryOver(basic: MIXMapBasicData): number {
+    const percent = basic.CarryOverMoney || 0;
+    const cap = typeof basic.CarryOverCap === 'number' ? basic.CarryOverCap : -1;
+    const credits = Math.floor(this.credits * percent / 100);
+
+    return cap === -1 ? credits : Math.min(credits, cap * 100);
+  }
+
+  /**
+   * Gets the maps that can be played next (more than one is a branch choice)
+   */
+  public getNextMaps(): string[] {
+    const maps = this.getMaps();
+    const last = this.completed.length > 0
+      ? getMissionNumber(this.completed[this.completed.length - 1])
+      : 0;
+
+    const next = maps
+      .map(getMissionNumber)
+      .find(n => n > last);
+
+    return next === undefined
+      ? []
+      : maps.filter(name => getMissionNumber(name) === next);
+  }
+
+  public getMaps(): string[] {
+    return this.team === 'nod' ? nodMaps : gdiMaps;
+  }
+
+  public getMissionCount(): number {
+    return new Set(this.getMaps().map(getMissionNumber)).size;
+  }
+
+  public getCompleted(): string[] {
+    return [...this.completed];
+  }
+
+  public getCredits(): number {
+    return this.credits;
+  }
+
+  public getPlayerName(): MIXPlayerName {
+    return this.team === 'nod' ? 'BadGuy' : 'GoodGuy';
+  }
+
+  public isFinished(): boolean {
+    return this.getNextMaps().length === 0;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import EventEmitter from 'eventemitter3';
+import { GameMap } from './map';
+import { MIXSaveGame, MIXSaveGameEntityData } from './mix';
+
+/**
+ * How often (in ticks) a checksum is computed
+ */
+export const CHECKSUM_INTERVAL = 30;
+
+/**
+ * How many snapshots are kept for comparison
+ */
+export const CHECKSUM_HISTORY = 10;
+
+export type GameMapChecksumRecord = [number, number]; // Tick / Checksum
+
+/**
+ * The parts of a save (see GameMap::toJson()) that are compared on a desync
+ */
+export type GameMapSnapshot = Pick<MIXSaveGame, 'players' | 'entities'>;
+
+export type GameMapSnapshotRecord = [number, GameMapSnapshot]; // Tick / Snapshot
+
+export interface GameMapDesync {
+  tick: number;
+  local: number;
+  remote: number;
+  diff?: string[];
+}
+
+/**
+ * Hashes a list of numbers (FNV-1a)
+ */
+export const hashNumbers = (values: number[], hash: number = 0x811c9dc5): number => {
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i] | 0;
+    for (let b = 0; b < 4; b++) {
+      hash ^= (v >>> (b * 8)) & 0xff;
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+
+  return hash >>> 0;
+};
+
+/**
+ * Compares two map snapshots (see GameMap::toJson()) and lists what differs
+ */
+export const diffSnapshots = (local: GameMapSnapshot, remote: GameMapSnapshot): string[] => {
+  const diff: string[] = [];
+  const byId = (list: MIXSaveGameEntityData[]) => new Map(list.map((e): [number, { [Key: string]: any }] => [e.id, e]));
+  const a = byId(local.entities || []);
+  const b = byId(remote.entities || []);
+  const ids = Array.from(new Set([...a.keys(), ...b.keys()])).sort((x, y) => x - y);
+
+  for (let id of ids) {
+    const ea = a.get(id);
+    const eb = b.get(id);
+
+    if (!ea) {
+      diff.push(`#${id} ${eb!.name}: only remote`);
+    } else if (!eb) {
+      diff.push(`#${id} ${ea.name}: only local`);
+    } else {
+      const keys = Array.from(new Set([...Object.keys(ea), ...Object.keys(eb)]));
+      for (let key of keys) {
+        const va = JSON.stringify(ea[key]);
+        const vb = JSON.stringify(eb[key]);
+        if (va !== vb) {
+          diff.push(`#${id} ${ea.name} ${key}: ${va} != ${vb}`);
+        }
+      }
+    }
+  }
+
+  const pa = JSON.stringify(local.players);
+  const pb = JSON.stringify(remote.players);
+  if (pa !== pb) {
+    diff.push(`players: ${pa} != ${pb}`);
+  }
+
+  return diff;
+};
+
+/**
+ * Map Checksums
+ *
+ * Computes a checksum of the simulation state every N ticks.
+ * Emits 'checksum' when computed and 'desync' on a mismatch.
+ * Snapshots for diffs are only kept when enabled (ex. lockstep).
+ */
+export class GameMapChecksum extends EventEmitter {
+  private readonly map: GameMap;
+  private readonly checksums: Map<number, number> = new Map();
+  private readonly snapshots: Map<number, GameMapSnapshot> = new Map();
+  private readonly expected: Map<number, [number, GameMapSnapshot | undefined][]> = new Map();
+  private snapshotting: boolean = false;
+
+  public constructor(map: GameMap) {
+    super();
+    this.map = map;
+  }
+
+  /**
+   * Called every tick by the map
+   */
+  public process(): void {
+    const tick = this.map.getTicks();
+    if (tick % CHECKSUM_INTERVAL !== 0) {
+      return;
+    }
+
+    const checksum = this.compute();
+    this.checksums.set(tick, checksum);
+
+    if (this.snapshotting) {
+      const { players, entities } = this.map.toJson();
+      this.snapshots.set(tick, { players, entities });
+    }
+
+    const old = tick - (CHECKSUM_HISTORY * CHECKSUM_INTERVAL);
+    this.checksums.delete(old);
+    this.snapshots.delete(old);
+
+    this.emit('checksum', tick, checksum);
+
+    const expected = this.expected.get(tick);
+    if (expected) {
+      this.expected.delete(tick);
+      expected.forEach(([value, snapshot]) => this.verify(tick, value, snapshot));
+    }
+  }
+
+  /**
+   * Computes checksum of entity positions, health, tiberium and credits
+   */
+  public compute(): number {
+    const entities = this.map.getEntities()
+      .filter(e => !e.isDestroyed() && !e.isCosmetic())
+      .sort((a, b) => a.id - b.id);
+
+    let hash = hashNumbers([this.map.getTicks()]);
+    for (let entity of entities) {
+      hash = hashNumbers(entity.getChecksumValues(), hash);
+    }
+
+    for (let player of this.map.getPlayers()) {
+      hash = hashNumbers([player.getId(), player.getCredits()], hash);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Compares a recorded or remote checksum with ours. If the tick has not
+   * been reached yet the comparison is made when it does. A remote snapshot
+   * of the same tick can be given to get a diff.
+   */
+  public verify(tick: number, remote: number, snapshot?: GameMapSnapshot): boolean {
+    const local = this.checksums.get(tick);
+    if (local === undefined) {
+      if (tick >= this.map.getTicks()) {
+        this.expected.set(tick, [...(this.expected.get(tick) || []), [remote, snapshot]]);
+      }
+      return true;
+    } else if (local === remote) {
+      return true;
+    }
+
+    const saved = this.snapshots.get(tick);
+    const diff = snapshot && saved ? diffSnapshots(saved, snapshot) : undefined;
+    const desync: GameMapDesync = { tick, local, remote, diff };
+
+    console.error('GameMapChecksum::verify()', 'Desync detected at tick', tick, local, remote, diff ? diff.join('\n') : '');
+    this.emit('desync', desync);
+
+    return false;
+  }
+
+  public getChecksum(tick: number): number | undefined {
+    return this.checksums.get(tick);
+  }
+
+  public getSnapshot(tick: number): GameMapSnapshot | undefined {
+    return this.snapshots.get(tick);
+  }
+
+  /**
+   * Keeps a snapshot of every checksummed tick so that desyncs can be diffed
+   */
+  public setSnapshots(enabled: boolean): void {
+    this.snapshotting = enabled;
+    if (!enabled) {
+      this.snapshots.clear();
+    }
+  }
+}
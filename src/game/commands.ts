@@ -0,0 +1,345 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import EventEmitter from 'eventemitter3';
+import { GameEntity } from './entity';
+import { GameMap } from './map';
+import { Player } from './player';
+import { ConstructionQueue, ConstructionObject } from './ui/construction';
+import { Vector } from 'vector2d';
+
+export type BuildCommandAction = 'build' | 'hold' | 'cancel';
+
+/**
+ * Effects of the special weapons that strikes right away
+ */
+const specialWeaponEffects: Record<string, string> = {
+  ION: 'IONSFX',
+  ATOM: 'ATOMSFX'
+};
+
+export interface GameMapCommandCell {
+  x: number;
+  y: number;
+}
+
+interface GameMapCommandBase {
+  player: number;
+  tick?: number;
+}
+
+export interface MoveCommand extends GameMapCommandBase {
+  type: 'move';
+  entities: number[];
+  cell: GameMapCommandCell;
+}
+
+export interface AttackCommand extends GameMapCommandBase {
+  type: 'attack';
+  entities: number[];
+  target: number;
+}
+
+export interface CaptureCommand extends GameMapCommandBase {
+  type: 'capture';
+  entities: number[];
+  target: number;
+}
+
+export interface HarvestCommand extends GameMapCommandBase {
+  type: 'harvest';
+  entities: number[];
+  target: number;
+}
+
+export interface EnterCommand extends GameMapCommandBase {
+  type: 'enter';
+  entities: number[];
+  target: number;
+}
+
+export interface DeployCommand extends GameMapCommandBase {
+  type: 'deploy';
+  entities: number[];
+}
+
+export interface SellCommand extends GameMapCommandBase {
+  type: 'sell';
+  target: number;
+}
+
+export interface RepairCommand extends GameMapCommandBase {
+  type: 'repair';
+  target: number;
+}
+
+export interface BuildCommand extends GameMapCommandBase {
+  type: 'build';
+  name: string;
+  action: BuildCommandAction;
+}
+
+export interface PlaceStructureCommand extends GameMapCommandBase {
+  type: 'place';
+  name: string;
+  cell: GameMapCommandCell;
+}
+
+export interface SpecialWeaponCommand extends GameMapCommandBase {
+  type: 'special';
+  name: string;
+  cell: GameMapCommandCell;
+}
+
+export type GameMapUnitCommand = MoveCommand | AttackCommand | CaptureCommand | HarvestCommand | EnterCommand | DeployCommand;
+
+export type GameMapStructureCommand = SellCommand | RepairCommand | BuildCommand | PlaceStructureCommand | SpecialWeaponCommand;
+
+export type GameMapCommand = GameMapUnitCommand | GameMapStructureCommand;
+
+/**
+ * Map Command Queue
+ *
+ * All player intents goes through here and are applied on a tick boundary.
+ * Emits 'command' after a command was applied.
+ */
+export class GameMapCommandQueue extends EventEmitter {
+  private readonly map: GameMap;
+  private queue: GameMapCommand[] = [];
+  private locked: boolean = false;
+
+  public constructor(map: GameMap) {
+    super();
+    this.map = map;
+  }
+
+  /**
+   * Queues a command. Unless a tick is given it is applied on the next tick.
+   */
+  public dispatch(command: GameMapCommand): void {
+    if (this.locked) {
+      return;
+    }
+
+    const tick = command.tick === undefined ? this.map.getTicks() : command.tick;
+    this.queue.push({ ...command, tick });
+  }
+
+  /**
+   * Applies all commands scheduled up until the current tick. Called every tick by the map.
+   */
+  public process(): void {
+    const ticks = this.map.getTicks();
+    const ready = this.queue
+      .map((command, index): [GameMapCommand, number] => [command, index])
+      .filter(([command]) => command.tick! <= ticks)
+      .sort(([a, ai], [b, bi]) => (a.tick! - b.tick!) || (a.player - b.player) || (ai - bi))
+      .map(([command]) => command);
+
+    if (ready.length === 0) {
+      return;
+    }
+
+    this.queue = this.queue.filter(command => command.tick! > ticks);
+
+    for (let command of ready) {
+      this.apply(command);
+      this.emit('command', command);
+    }
+  }
+
+  public clear(): void {
+    this.queue = [];
+  }
+
+  /**
+   * Ignores all commands dispatched from now on (ex. replays where every command was recorded)
+   */
+  public lock(): void {
+    this.locked = true;
+  }
+
+  public getPending(): GameMapCommand[] {
+    return [...this.queue];
+  }
+
+  protected apply(command: GameMapCommand): void {
+    const player = this.map.getPlayerById(command.player);
+    if (!player) {
+      console.warn('GameMapCommandQueue::apply()', 'Invalid player', command);
+      return;
+    }
+
+    const report = player.isSessionPlayer();
+
+    switch (command.type) {
+      case 'move': {
+        const cell = new Vector(command.cell.x, command.cell.y);
+        this.map.formation.move(this.getEntities(player, command.entities), cell, report);
+        break;
+      }
+
+      case 'attack': {
+        const target = this.getTarget(command.target);
+        if (target) {
+          this.getEntities(player, command.entities)
+            .filter(e => e.canAttack())
+            .forEach((e, i) => e.attack(target, report && i === 0));
+        }
+        break;
+      }
+
+      case 'capture': {
+        const target = this.getTarget(command.target);
+        if (target && target.isCapturable() && target.player !== player) {
+          this.getEntities(player, command.entities)
+            .filter(e => e.canCapture())
+            .forEach(e => e.capture(target));
+        }
+        break;
+      }
+
+      case 'harvest': {
+        const target = this.getTarget(command.target);
+        if (target && target.isTiberium()) {
+          this.getEntities(player, command.entities)
+            .filter(e => e.canHarvest())
+            .forEach((e, i) => e.harvest(target, report && i === 0));
+        }
+        break;
+      }
+
+      case 'enter': {
+        const target = this.getTarget(command.target);
+        if (target && target.isRefinery() && target.player === player) {
+          this.getEntities(player, command.entities)
+            .filter(e => e.canHarvest())
+            .forEach((e, i) => e.enter(target, report && i === 0));
+        }
+        break;
+      }
+
+      case 'deploy': {
+        const [deployable] = this.getEntities(player, command.entities)
+          .filter(e => e.isDeployable());
+
+        if (deployable) {
+          deployable.deploy();
+        }
+        break;
+      }
+
+      case 'sell': {
+        const [target] = this.getEntities(player, [command.target]);
+        if (target && target.isSellable()) {
+          target.sell();
+        }
+        break;
+      }
+
+      case 'repair': {
+        const [target] = this.getEntities(player, [command.target]);
+        if (target && target.isRepairable()) {
+          target.repair();
+        }
+        break;
+      }
+
+      case 'build':
+        this.applyBuild(player, command);
+        break;
+
+      case 'place':
+        this.applyPlace(player, command);
+        break;
+
+      case 'special':
+        this.applySpecial(player, command);
+        break;
+
+      default:
+        console.warn('GameMapCommandQueue::apply()', 'Unknown command', command);
+        break;
+    }
+  }
+
+  protected applyBuild(player: Player, command: BuildCommand): void {
+    const [queue, item] = this.getConstruction(player, command.name);
+    if (!queue || !item) {
+      return;
+    }
+
+    if (command.action === 'build') {
+      if (item.state !== 'ready') {
+        queue.build(item);
+      }
+    } else if (command.action === 'hold') {
+      queue.hold(item);
+    } else if (command.action === 'cancel') {
+      queue.cancel(item);
+    }
+  }
+
+  protected applyPlace(player: Player, command: PlaceStructureCommand): void {
+    const [queue, item] = this.getConstruction(player, command.name);
+    if (!queue || !item || item.state !== 'ready') {
+      return;
+    }
+
+    queue.reset(item);
+
+    this.map.factory.load(item.type, {
+      name: item.name,
+      player: player.getId(),
+      cell: new Vector(command.cell.x, command.cell.y)
+    });
+  }
+
+  protected applySpecial(player: Player, command: SpecialWeaponCommand): void {
+    const [queue, item] = this.getConstruction(player, command.name);
+    if (!queue || !item || item.state !== 'ready') {
+      return;
+    }
+
+    const cell = new Vector(command.cell.x, command.cell.y);
+    const effect = specialWeaponEffects[item.name];
+    if (item.name === 'BOMB') {
+      queue.reset(item);
+      this.map.reinforcements.airstrike(player, cell);
+    } else if (effect) {
+      queue.reset(item);
+
+      this.map.factory.load('effect', {
+        name: effect,
+        player: player.getId(),
+        cell
+      });
+    } else {
+      console.warn('GameMapCommandQueue::applySpecial()', 'Not supported', item.name);
+    }
+  }
+
+  protected getConstruction(player: Player, name: string): [ConstructionQueue?, ConstructionObject?] {
+    for (let queue of this.map.getConstructionQueues(player)) {
+      const item = queue.getAvailableByName(name);
+      if (item) {
+        return [queue, item];
+      }
+    }
+
+    return [];
+  }
+
+  protected getEntities(player: Player, ids: number[]): GameEntity[] {
+    return ids
+      .map(id => this.map.getEntityById(id))
+      .filter((e): e is GameEntity => !!e && !e.isDestroyed() && e.player === player);
+  }
+
+  protected getTarget(id: number): GameEntity | undefined {
+    const target = this.map.getEntityById(id);
+    return target && !target.isDestroyed() ? target : undefined;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { MIXAircraft, MIXSaveGameAircraftState, MIXSaveGameEntityData } from '../mix';
+import { cellFromPoint, getDirection, getNewDirection, CELL_SIZE } from '../physics';
+import { GameMapEntity, SPEED_DIVIDER } from './mapentity';
+import { Vector } from 'vector2d';
+
+export type AircraftMission = 'bomb' | 'unload';
+
+/**
+ * How close to the target (in cells) bombs starts dropping
+ */
+const BOMB_DISTANCE = 1;
+
+/**
+ * Ticks between each dropped bomb
+ */
+const BOMB_INTERVAL = 3;
+
+/**
+ * Aircraft Entity
+ *
+ * Flies straight over the map without taking up any cells and leaves
+ * once the mission is completed. Transports land and wait to be unloaded.
+ */
+export class AircraftEntity extends GameMapEntity {
+  public readonly properties: MIXAircraft = this.engine.mix.aircraft.get(this.data.name) as MIXAircraft;
+  protected dimension: Vector = new Vector(24, 24);
+  protected zIndex: number = 20;
+  protected mission?: AircraftMission;
+  protected destination?: Vector;
+  protected ammo: number = 0;
+  protected missionTicks: number = 0;
+  protected leaving: boolean = false;
+  protected landed: boolean = false;
+
+  public toJson(): MIXSaveGameEntityData {
+    return {
+      ...super.toJson(),
+      type: 'aircraft'
+    };
+  }
+
+  public getState(): MIXSaveGameAircraftState {
+    return {
+      ...super.getState(),
+      mission: this.mission,
+      destination: this.destination ? this.destination.toObject() : undefined,
+      ammo: this.ammo,
+      missionTicks: this.missionTicks,
+      leaving: this.leaving,
+      landed: this.landed
+    };
+  }
+
+  public restoreState(state: MIXSaveGameAircraftState): void {
+    super.restoreState(state);
+    this.mission = state.mission as AircraftMission | undefined;
+    this.destination = state.destination ? new Vector(state.destination.x, state.destination.y) : undefined;
+    this.ammo = state.ammo;
+    this.missionTicks = state.missionTicks;
+    this.leaving = state.leaving;
+    this.landed = state.landed;
+  }
+
+  public init(): void {
+    super.init();
+    this.ammo = this.properties.Ammo;
+  }
+
+  /**
+   * Flies over a cell and drops all bombs on it
+   */
+  public bomb(cell: Vector): void {
+    this.mission = 'bomb';
+    this.destination = cell.clone() as Vector;
+    this.direction = getDirection(this.getDestinationPosition(), this.position, this.directions);
+  }
+
+  /**
+   * Flies to a cell and lands there until it is unloaded
+   */
+  public land(cell: Vector): void {
+    this.mission = 'unload';
+    this.destination = cell.clone() as Vector;
+    this.direction = getDirection(this.getDestinationPosition(), this.position, this.directions);
+  }
+
+  /**
+   * Leaves the map the same way it came in
+   */
+  public takeOff(): void {
+    if (this.landed) {
+      this.landed = false;
+      this.leaving = true;
+      this.direction = (this.direction + this.directions / 2) % this.directions;
+    }
+  }
+
+  protected tick(deltaTime: number): void {
+    if (this.landed) {
+      return;
+    }
+
+    if (this.leaving || !this.destination) {
+      this.fly();
+      return;
+    }
+
+    const target = this.getDestinationPosition();
+    const direction = getDirection(target, this.position, this.directions);
+
+    if (this.mission === 'unload') {
+      // NOTE: Helicopters turns on the spot, so they never circle around the landing zone
+      this.direction = direction;
+
+      if (target.distance(this.position) <= this.getMovementSpeed() / SPEED_DIVIDER) {
+        this.setPosition(target, true);
+        this.landed = true;
+        return;
+      }
+    } else {
+      this.direction = getNewDirection(this.direction, direction, this.properties.TurningSpeed / 4, this.directions);
+    }
+
+    if (this.mission === 'bomb' && target.distance(this.position) <= BOMB_DISTANCE * CELL_SIZE) {
+      if (this.missionTicks <= 0 && this.ammo > 0) {
+        this.primaryWeapon!.detonate(this.destination);
+        this.missionTicks = BOMB_INTERVAL;
+        this.ammo--;
+      }
+
+      if (this.ammo <= 0) {
+        this.leaving = true;
+      }
+    }
+
+    this.missionTicks--;
+    this.fly();
+  }
+
+  /**
+   * Moves forward in the current direction and is removed when outside the map
+   */
+  protected fly(): void {
+    const speed = this.getMovementSpeed() / SPEED_DIVIDER;
+    const angleRadians = (Math.round(this.direction) / this.directions) * 2 * Math.PI;
+    this.position.subtract(new Vector(speed * Math.sin(angleRadians), speed * Math.cos(angleRadians)));
+    this.cell = cellFromPoint(this.position);
+
+    const dimension = this.map.getMapDimension();
+    if (this.cell.x < -1 || this.cell.y < -1 || this.cell.x > dimension.x || this.cell.y > dimension.y) {
+      this.destroy();
+    }
+  }
+
+  public isMoving(): boolean {
+    return !this.landed;
+  }
+
+  public isAircraft(): boolean {
+    return true;
+  }
+
+  protected getDestinationPosition(): Vector {
+    return this.destination!.clone().mulS(CELL_SIZE) as Vector;
+  }
+
+  /**
+   * The sprite size is only known once it has loaded, so it is centered on the position here
+   */
+  public onRender(deltaTime: number): void {
+    if (this.sprite && this.sprite.size.x > 0) {
+      const context = this.map.overlay.getContext();
+      const offset = this.sprite.size.clone().subtract(new Vector(CELL_SIZE, CELL_SIZE)).divS(2) as Vector;
+      const frame = new Vector(this.frameOffset.x, Math.round(this.direction) % this.directions);
+      this.sprite.render(frame, this.getTruncatedPosition(offset), context);
+    }
+
+    super.onRender(deltaTime);
+  }
+
+  public getSpriteName(): string {
+    return `CONQUER.MIX/${this.data.name.toLowerCase()}.png`;
+  }
+}
@@ -6,7 +6,7 @@
 import { Sprite, Entity }  from '../../engine';
 import { CELL_SIZE } from '../physics';
 import { spriteFromName } from '../sprites';
-import { GameEngine } from '../game';
+import { GameMapEngine } from '../game';
 import { Vector } from 'vector2d';
 
 /**
@@ -17,9 +17,9 @@ export class BibEntity extends Entity {
   private size: Vector;
   private offset: number;
   private sprite: Sprite;
-  private engine: GameEngine;
+  private engine: GameMapEngine;
 
-  public constructor(size: Vector, theatre: string, engine: GameEngine) {
+  public constructor(size: Vector, theatre: string, engine: GameMapEngine) {
     super();
 
     const id = size.x > 3 ? 1 : (size.x > 2 ? 2 : 3);
@@ -55,7 +55,7 @@ export class BibEntity extends Entity {
     }
   }
 
-  public static async createOrCache(engine: GameEngine, size: Vector, theatre: string): Promise<BibEntity> {
+  public static async createOrCache(engine: GameMapEngine, size: Vector, theatre: string): Promise<BibEntity> {
     const key = size.toString() + theatre;
     if (!this.cache.has(key)) {
       const bib = new BibEntity(size, theatre, engine);
@@ -20,8 +20,12 @@ export class EffectEntity extends GameMapEntity {
     };
   }
 
-  public async init(): Promise<void> {
-    await super.init();
+  public isCosmetic(): boolean {
+    return true;
+  }
+
+  public init(): void {
+    super.init();
 
     const name = this.data.name;
     const manim = this.engine.mix.animations.get(name) as MIXAnimation;
@@ -3,11 +3,12 @@
  * @author Anders Evenrud <andersevenrud@gmail.com>
  * @license MIT
  */
-import { Animation, randomBetweenInteger }  from '../../engine';
+import { Animation }  from '../../engine';
 import { GameEntity } from '../entity';
 import { GameMapEntity, GameMapEntityAnimation } from './mapentity';
-import { MIXInfantry, MIXInfantryAnimation, infantryIdleAnimations } from '../mix';
+import { MIXInfantry, MIXInfantryAnimation, MIXSaveGameInfantryState, infantryIdleAnimations } from '../mix';
 import { getSubCellOffset } from '../physics';
+import { GameMapLocomotor } from '../pathfinding';
 import { Vector } from 'vector2d';
 
 /**
@@ -34,7 +35,19 @@ export class InfantryEntity extends GameMapEntity {
     };
   }
 
-  public async init(): Promise<void> {
+  public getState(): MIXSaveGameInfantryState {
+    return {
+      ...super.getState(),
+      capturing: this.capturing ? this.capturing.id : undefined
+    };
+  }
+
+  public restoreState(state: MIXSaveGameInfantryState): void {
+    super.restoreState(state);
+    this.capturing = state.capturing !== undefined ? this.map.getEntityById(state.capturing) : undefined;
+  }
+
+  public init(): void {
     // TODO: Guy
     if (this.data.name === 'C10') {
       // FIXME: More sounds
@@ -66,7 +79,7 @@ export class InfantryEntity extends GameMapEntity {
         this.animations.set(name, anim);
       });
 
-    await super.init();
+    super.init();
   }
 
   public capture(target: GameEntity): void {
@@ -89,18 +102,19 @@ export class InfantryEntity extends GameMapEntity {
     return false;
   }
 
-  public move(position: Vector, report: boolean = false): boolean {
-    if (super.move(position, report)) {
-      this.targetSubCell = 0; // FIXME
+  public move(position: Vector, report: boolean = false, path?: Vector[]): boolean {
+    const destination = this.map.occupancy.getFreeInfantryCell(position, this) || position;
+    if (super.move(destination, report, destination.equals(position) ? path : undefined)) {
+      this.targetSubCell = Math.max(0, this.map.occupancy.getFreeSubCell(destination, this));
       return true;
     }
 
     return false;
   }
 
-  protected moveTo(position: Vector, report: boolean = false, force: boolean = false): boolean {
+  protected moveTo(position: Vector, report: boolean = false, force: boolean = false, plannedPath?: Vector[]): boolean {
     this.capturing = undefined;
-    return super.moveTo(position, report, force);
+    return super.moveTo(position, report, force, plannedPath);
   }
 
   public onUpdate(deltaTime: number): void {
@@ -124,8 +138,8 @@ export class InfantryEntity extends GameMapEntity {
       this.idleTimer--;
 
       if (this.idleTimer < 0) {
-        this.idleAnimation = infantryIdleAnimations[randomBetweenInteger(0, infantryIdleAnimations.length - 1)];
-        this.idleTimer = randomBetweenInteger(200, 1000);
+        this.idleAnimation = this.map.cosmeticRandom.pick(infantryIdleAnimations) as string;
+        this.idleTimer = this.map.cosmeticRandom.between(200, 1000);
       }
     }
 
@@ -134,6 +148,8 @@ export class InfantryEntity extends GameMapEntity {
         .distance(this.getCell());
 
       if (distance <= 1) {
+        this.map.onEntityEvent('Player Enters', this.capturing, this);
+
         if (this.player) {
           this.capturing.setPlayer(this.player);
           // FIXME: Need to call player update to get credits etc.
@@ -162,6 +178,10 @@ export class InfantryEntity extends GameMapEntity {
     this.sprite!.render(frame, position, context);
   }
 
+  public getLocomotor(): GameMapLocomotor {
+    return 'Foot';
+  }
+
   public isSelectable(): boolean {
     return true;
   }
@@ -7,16 +7,18 @@ import { Animation, Sprite } from '../../engine';
 import { Player } from '../player';
 import { GameMap } from '../map';
 import { getSubCellOffset, cellFromPoint, getDirection, getNewDirection, CELL_SIZE } from '../physics';
-import { MIXGrid, MIXMapEntityData, MIXObject, humanDirections } from '../mix';
+import { MIXGrid, MIXMapEntityData, MIXObject, MIXSaveGameMapEntityState, humanDirections } from '../mix';
 import { HealthBarEntity } from './health';
 import { StorageBarEntity } from './storage';
 import { spriteFromName } from '../sprites';
 import { Weapon } from '../weapons';
+import { GameMapLocomotor, GameMapPathRequest } from '../pathfinding';
 import { GameEntity } from '../entity';
 import { Vector } from 'vector2d';
 
-const SPEED_DIVIDER = 20;
+export const SPEED_DIVIDER = 20;
 const TURNSPEED_DIVIDER = 8;
+const WAIT_TICKS = 20;
 
 export type GameMapEntityTargetAction = 'attack' | 'harvest' | 'enter' | 'capture' | 'bomb' | 'harvest-return';
 
@@ -62,11 +64,14 @@ export abstract class GameMapEntity extends GameEntity {
   protected targetAction?: GameMapEntityTargetAction;
   protected currentPath: Vector[] = [];
   protected currentAction?: GameMapEntityTargetAction;
+  protected hunting: boolean = false;
+  protected waitTicks: number = 0;
+  protected pathRequest?: GameMapPathRequest;
   protected primaryWeapon?: Weapon;
   protected secondaryWeapon?: Weapon;
 
   public constructor(data: MIXMapEntityData, map: GameMap) {
-    super(map);
+    super(map, data.id);
     this.data = data;
     this.direction = this.data.direction || 0;
     this.health = parseInt(String(data.health!), 10) || 1; // FIXME
@@ -91,12 +96,59 @@ export abstract class GameMapEntity extends GameEntity {
     return {
       ...this.data,
       ...super.toJson(),
+      player: this.player ? this.player.getId() : this.data.player,
       health: this.health,
       direction: this.direction
     };
   }
 
-  public async init(): Promise<void> {
+  public getState(): MIXSaveGameMapEntityState {
+    return {
+      ...super.getState(),
+      targetSubCell: this.targetSubCell,
+      targetDirection: this.targetDirection,
+      targetPosition: this.targetPosition ? this.targetPosition.toObject() : undefined,
+      targetEntity: this.targetEntity ? this.targetEntity.id : undefined,
+      targetAction: this.targetAction,
+      currentPath: this.currentPath.map(v => v.toObject()),
+      hunting: this.hunting,
+      waitTicks: this.waitTicks,
+      pathRequest: this.pathRequest ? {
+        ...this.pathRequest,
+        destination: this.pathRequest.destination.toObject()
+      } : undefined,
+      primaryWeapon: this.primaryWeapon ? this.primaryWeapon.getTick() : undefined,
+      secondaryWeapon: this.secondaryWeapon ? this.secondaryWeapon.getTick() : undefined
+    };
+  }
+
+  public restoreState(state: MIXSaveGameMapEntityState): void {
+    super.restoreState(state);
+
+    const target = state.targetEntity !== undefined ? this.map.getEntityById(state.targetEntity) : undefined;
+    this.targetSubCell = state.targetSubCell;
+    this.targetDirection = state.targetDirection;
+    this.targetPosition = state.targetPosition ? new Vector(state.targetPosition.x, state.targetPosition.y) : undefined;
+    this.targetEntity = target as GameMapEntity | undefined;
+    this.targetAction = state.targetAction as GameMapEntityTargetAction | undefined;
+    this.currentPath = state.currentPath.map(v => new Vector(v.x, v.y));
+    this.hunting = state.hunting;
+    this.waitTicks = state.waitTicks || 0;
+    this.pathRequest = state.pathRequest ? {
+      ...state.pathRequest,
+      destination: new Vector(state.pathRequest.destination.x, state.pathRequest.destination.y)
+    } : undefined;
+
+    if (this.primaryWeapon && state.primaryWeapon !== undefined) {
+      this.primaryWeapon.setTick(state.primaryWeapon);
+    }
+
+    if (this.secondaryWeapon && state.secondaryWeapon !== undefined) {
+      this.secondaryWeapon.setTick(state.secondaryWeapon);
+    }
+  }
+
+  public init(): void {
     if (this.properties) {
       this.hitPoints = this.properties.HitPoints;
       if (this.data.health) {
@@ -107,29 +159,14 @@ export abstract class GameMapEntity extends GameEntity {
 
       if (this.properties.PrimaryWeapon) {
         this.primaryWeapon = new Weapon(this.properties.PrimaryWeapon, this.map, this);
-        try {
-          await this.primaryWeapon.init();
-        } catch (e) {
-          console.warn('PrimaryWeapon exception', e);
-        }
       }
 
       if (this.properties.SecondaryWeapon) {
         this.secondaryWeapon = new Weapon(this.properties.SecondaryWeapon, this.map, this);
-        try {
-          await this.secondaryWeapon.init();
-        } catch (e) {
-          console.warn('SecondaryWeapon exception', e);
-        }
       }
     }
 
-    try {
-      this.sprite = spriteFromName(this.getSpriteName());
-      await this.engine.loadArchiveSprite(this.sprite);
-    } catch (e) {
-      console.error('GameMapEntity::init()', 'Failed to load sprite', this.getSpriteName(), e);
-    }
+    this.sprite = spriteFromName(this.getSpriteName());
 
     if (this.properties) {
       if (this.properties.OccupyList) {
@@ -153,12 +190,36 @@ export abstract class GameMapEntity extends GameEntity {
 
     if (this.getStorageSlots() > 0) {
       this.storageBar = new StorageBarEntity(this, this.engine);
-      await this.storageBar.init();
     }
 
     this.toggleWalkableTiles(false);
   }
 
+  public async load(): Promise<void> {
+    try {
+      if (this.primaryWeapon) {
+        await this.primaryWeapon.load();
+      }
+      if (this.secondaryWeapon) {
+        await this.secondaryWeapon.load();
+      }
+    } catch (e) {
+      console.warn('GameMapEntity::load()', 'Failed to load weapon', e);
+    }
+
+    if (this.sprite) {
+      try {
+        await this.engine.loadArchiveSprite(this.sprite);
+      } catch (e) {
+        console.error('GameMapEntity::load()', 'Failed to load sprite', this.getSpriteName(), e);
+      }
+    }
+
+    if (this.storageBar) {
+      await this.storageBar.init();
+    }
+  }
+
   public onUpdate(deltaTime: number): void {
     const animation = this.animations.get(this.animation);
     const xoff = this.getSpritePlayerIndex();
@@ -191,6 +252,13 @@ export abstract class GameMapEntity extends GameEntity {
       }
     }
 
+    if (this.hunting && !this.targetEntity && (this.map.getTicks() % 10) === 0) {
+      const target = this.map.getClosestEnemy(this, (e: GameEntity) => e.isSelectable());
+      if (target) {
+        this.attack(target as GameMapEntity);
+      }
+    }
+
     const rotationSpeed = this.getRotationSpeed() / TURNSPEED_DIVIDER;
 
     this.currentAction = undefined;
@@ -216,8 +284,9 @@ export abstract class GameMapEntity extends GameEntity {
 
         this.targetPosition = undefined;
         this.currentPath = [];
+        this.pathRequest = undefined;
         this.currentAction = this.targetAction;
-      } else if (this.currentPath.length === 0 && this.targetPosition === undefined) {
+      } else if (this.currentPath.length === 0 && this.targetPosition === undefined && !this.pathRequest) {
         this.moveTo(targetCell, false, true);
       }
     }
@@ -234,21 +303,39 @@ export abstract class GameMapEntity extends GameEntity {
       }
     } else if (this.targetPosition) {
       const vel = this.getMovementVelocity();
+      const cell = this.cell;
       if (vel) {
         this.position.subtract(vel);
-        this.cell = cellFromPoint(new Vector(
-          Math.floor(this.position.x),
-          Math.floor(this.position.y)
-        ));
       } else {
-        this.subCell = this.targetSubCell;
-        this.targetSubCell = -1;
+        // NOTE: Snap to the target so that the cell is not left behind by rounding
+        this.position = this.targetPosition.clone() as Vector;
+      }
+
+      // NOTE: Subcell offsets can reach into the neighbouring cell
+      this.cell = vel ? cellFromPoint(new Vector(
+        Math.floor(this.position.x),
+        Math.floor(this.position.y)
+      )) : this.getNextCell()!;
+
+      if (!this.cell.equals(cell)) {
+        this.map.onCellEntered(this.cell, this);
+      }
+
+      if (!vel) {
+        if (this.currentPath.length === 0) {
+          this.subCell = this.targetSubCell;
+          this.targetSubCell = -1;
+        }
+
         this.targetPosition = undefined;
         this.targetDirection = -1;
       }
     } else {
-      if (this.currentPath.length > 0) {
+      const blocked = this.currentPath.length > 0 && this.waitForCell(this.currentPath[0]);
+
+      if (this.currentPath.length > 0 && !blocked) {
         const destination = this.currentPath.shift() as Vector;
+        this.map.occupancy.add(destination, this);
         this.targetPosition = destination.clone().mulS(CELL_SIZE) as Vector;
 
         if (this.currentPath.length === 0 && this.targetSubCell !== -1) { // FIXME
@@ -326,6 +413,14 @@ export abstract class GameMapEntity extends GameEntity {
 
   public die(destroy: boolean = true): boolean {
     if (super.die()) {
+      if (this.player) {
+        this.player.addLoss(this);
+      }
+
+      this.map.statistics.onEntityDestroyed(this, this.attacker);
+      this.map.onEntityEvent('Destroyed', this);
+
+      this.hunting = false;
       this.targetDirection = -1;
       this.targetPosition = undefined;
       this.currentPath = [];
@@ -370,25 +465,38 @@ export abstract class GameMapEntity extends GameEntity {
     }
   }
 
-  public move(position: Vector, report: boolean = false): boolean {
+  public hunt(): void {
+    this.hunting = true;
+  }
+
+  public move(position: Vector, report: boolean = false, path?: Vector[]): boolean {
+    this.hunting = false;
     this.targetEntity = undefined;
     this.targetAction = undefined;
 
-    return this.moveTo(position, report);
+    return this.moveTo(position, report, false, path);
   }
 
   protected harvestResource(target: GameMapEntity): void {
   }
 
-  protected moveTo(position: Vector, report: boolean = false, force: boolean = false): boolean {
+  protected moveTo(position: Vector, report: boolean = false, force: boolean = false, plannedPath?: Vector[]): boolean {
     const src = this.cell;
     const dst = position;
-    const path = this.map.createPath(src, dst, force);
+
+    // NOTE: Other entities are dealt with along the way, so the path can be shared
+    const path = plannedPath || this.map.pathfinder.findPath(src, dst, force, this.getLocomotor());
 
     this.targetSubCell = -1;
     this.targetDirection = -1;
     this.targetPosition = undefined;
-    this.currentPath = path;
+    this.currentPath = path || [];
+    // NOTE: Asking again while waiting keeps the place in line
+    this.pathRequest = path ? undefined : {
+      destination: dst.clone() as Vector,
+      force,
+      tick: this.pathRequest ? this.pathRequest.tick : this.map.getTicks()
+    };
 
     if (report && this.reportMove) {
       this.playSfx(this.reportMove);
@@ -396,7 +504,116 @@ export abstract class GameMapEntity extends GameEntity {
 
     console.log('GameMapEntity::moveTo()', { path, src, dst }, this);
 
-    return path.length > 0;
+    return !path || path.length > 0;
+  }
+
+  /**
+   * Called by the pathfinder when a waiting request was served
+   */
+  public setPath(path: Vector[]): void {
+    this.pathRequest = undefined;
+    this.currentPath = path;
+  }
+
+  public getPathRequest(): GameMapPathRequest | undefined {
+    return this.pathRequest;
+  }
+
+  /**
+   * Waits for, nudges or paths around whatever is in the next cell
+   */
+  protected waitForCell(cell: Vector): boolean {
+    const blockers = this.map.occupancy.getBlockers(cell, this);
+    if (blockers.length === 0) {
+      this.waitTicks = 0;
+      return false;
+    }
+
+    const idle = blockers.filter(e => !e.isMoving());
+    if (this.currentPath.length === 1 && idle.length === blockers.length) {
+      // NOTE: The destination is taken, so this is close enough
+      this.currentPath = [];
+      this.targetSubCell = -1;
+      this.waitTicks = 0;
+      return true;
+    }
+
+    // NOTE: Infantry only wait for a full cell, shuffling it around does not help
+    if (this.currentPath.length > 1) {
+      idle
+        .filter(e => e.player === this.player && !(this.isInfantry() && e.isInfantry()))
+        .forEach(e => e.nudge(this));
+    }
+
+    this.waitTicks++;
+    if (this.waitTicks >= WAIT_TICKS) {
+      const destination = this.currentPath[this.currentPath.length - 1];
+      const path = this.map.pathfinder.findPath(this.cell, destination, true, this.getLocomotor(), this);
+      if (path) {
+        if (path.length > 0) {
+          this.currentPath = path;
+        }
+
+        this.waitTicks = 0;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Moves out of the way into a free neighbouring cell
+   */
+  public nudge(source: GameEntity): void {
+    if (this.isMoving() || this.targetEntity || !this.isMovable()) {
+      return;
+    }
+
+    const locomotor = this.getLocomotor();
+    const sourceCell = source.getCell();
+    const cells: Vector[] = [];
+
+    for (let y = this.cell.y - 1; y <= this.cell.y + 1; y++) {
+      for (let x = this.cell.x - 1; x <= this.cell.x + 1; x++) {
+        const cell = new Vector(x, y);
+        if (!cell.equals(this.cell) && !cell.equals(sourceCell)) {
+          cells.push(cell);
+        }
+      }
+    }
+
+    const [destination] = cells
+      .filter(c => this.map.getMovementCost(c, locomotor) !== Infinity)
+      .filter(c => !this.map.occupancy.isBlocked(c, this))
+      .sort((a, b) => b.distance(sourceCell) - a.distance(sourceCell));
+
+    if (destination) {
+      this.map.occupancy.add(destination, this);
+      this.moveTo(destination);
+    }
+  }
+
+  public getNextCell(): Vector | undefined {
+    if (!this.targetPosition) {
+      return undefined;
+    }
+
+    const position = this.targetPosition.clone() as Vector;
+    if (this.currentPath.length === 0 && this.targetSubCell !== -1) {
+      position.subtract(getSubCellOffset(this.targetSubCell, this.getDimension()));
+    }
+
+    return cellFromPoint(new Vector(Math.floor(position.x), Math.floor(position.y)));
+  }
+
+  public getDestinationCell(): Vector | undefined {
+    return this.currentPath.length > 0
+      ? this.currentPath[this.currentPath.length - 1].clone() as Vector
+      : this.getNextCell();
+  }
+
+  public getTargetSubCell(): number {
+    return this.targetSubCell;
   }
 
   protected toggleWalkableTiles(t: boolean): void {
@@ -419,10 +636,12 @@ export abstract class GameMapEntity extends GameEntity {
         }
       }
     }
+
+    this.map.pathfinder.invalidate();
   }
 
   public isMoving(): boolean {
-    return !!this.targetPosition || this.targetDirection !== -1;
+    return !!this.targetPosition || this.targetDirection !== -1 || this.currentPath.length > 0 || !!this.pathRequest;
   }
 
   public setSelected(selected: boolean, report: boolean = true): void {
@@ -495,12 +714,26 @@ export abstract class GameMapEntity extends GameEntity {
     return this.data.name;
   }
 
+  public getTriggerName(): string {
+    const name = (this.data.trigger || '').toLowerCase();
+    return name === 'none' ? '' : name;
+  }
+
   public getMovementSpeed(): number {
     return this.properties
       ? this.properties.Speed || 0
       : 0;
   }
 
+  public getLocomotor(): GameMapLocomotor {
+    return 'Track';
+  }
+
+  public getWeapon(name: string): Weapon | undefined {
+    return [this.primaryWeapon, this.secondaryWeapon]
+      .find(w => !!w && w.name === name);
+  }
+
   public getWeaponSight(): number {
     // FIXME
     if (this.primaryWeapon || this.secondaryWeapon) {
@@ -517,9 +750,13 @@ export abstract class GameMapEntity extends GameEntity {
   }
 
   public getMovementVelocity(): Vector | undefined {
-    const speed = this.getMovementSpeed() / SPEED_DIVIDER;
-    const direction = getDirection(this.targetPosition!, this.position, this.directions);
-    const angleRadians = (direction / this.directions) * 2 * Math.PI;
+    // NOTE: Never stop completely if standing somewhere the locomotor can not go
+    const land = this.map.getLandSpeed(this.cell, this.getLocomotor());
+    const speed = (this.getMovementSpeed() / SPEED_DIVIDER) * (land > 0 ? land : 1);
+    // NOTE: Boats only have two facings, but still need to move along the path
+    const directions = Math.max(8, this.directions);
+    const direction = getDirection(this.targetPosition!, this.position, directions);
+    const angleRadians = (direction / directions) * 2 * Math.PI;
     const vel = new Vector(speed * Math.sin(angleRadians), speed * Math.cos(angleRadians));
     const distance = this.targetPosition!.distance(this.position);
 
@@ -552,7 +789,7 @@ export abstract class GameMapEntity extends GameEntity {
       return false;
     }
 
-    return this.isPlayer() ? false : source.data.player != this.getPlayerId();
+    return source.player !== this.player;
   }
 }
 
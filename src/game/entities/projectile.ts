@@ -0,0 +1,172 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMap } from '../map';
+import { GameEntity } from '../entity';
+import { GameMapEntity } from './mapentity';
+import { Weapon } from '../weapons';
+import { MIXBullet, MIXWarhead, MIXSaveGameEntityData, MIXSaveGameProjectileState } from '../mix';
+import { cellFromPoint, getDirection, CELL_SIZE } from '../physics';
+import { Vector } from 'vector2d';
+
+export class ProjectileEntity extends GameEntity {
+  protected readonly bullet: MIXBullet;
+  protected readonly warhead: MIXWarhead;
+  protected readonly weapon: Weapon;
+  protected target?: GameEntity;
+  protected targetPosition: Vector;
+  protected direction: number = 0;
+  protected trailTick: number = 0;
+
+  /**
+   * NOTE: Projectiles restored from a save can outlive the entity that fired
+   * them. The weapon is then only created by name for its rules and sprites.
+   */
+  public constructor(weapon: Weapon | string, target: GameEntity | undefined, map: GameMap, id?: number) {
+    super(map, id);
+
+    this.weapon = typeof weapon === 'string' ? new Weapon(weapon, map, this) : weapon;
+    this.target = target;
+    this.bullet = map.engine.mix.bullets.get(this.weapon.weapon.Projectile) as MIXBullet;
+    this.warhead = map.engine.mix.warheads.get(this.bullet.Warhead) as MIXWarhead;
+    this.dimension = this.weapon.sprite ? this.weapon.sprite.size.clone() as Vector : new Vector(CELL_SIZE, CELL_SIZE); //FIXME
+    this.position = this.weapon.entity.getPosition();
+    this.cell = cellFromPoint(this.position);
+    this.targetPosition = target ? target.getPosition() : this.getPosition();
+  }
+
+  public getState(): MIXSaveGameProjectileState {
+    return {
+      ...super.getState(),
+      weapon: this.weapon.name,
+      source: this.weapon.entity.id,
+      target: this.target ? this.target.id : undefined,
+      targetPosition: this.targetPosition.toObject(),
+      trailTick: this.trailTick
+    };
+  }
+
+  public restoreState(state: MIXSaveGameProjectileState): void {
+    super.restoreState(state);
+    this.cell = cellFromPoint(this.position);
+    this.targetPosition = new Vector(state.targetPosition.x, state.targetPosition.y);
+    this.trailTick = state.trailTick;
+  }
+
+  public toJson(): any {
+    return {
+      ...super.toJson(),
+      name: this.weapon.weapon.Projectile,
+      type: 'projectile'
+    };
+  }
+
+  public async load(): Promise<void> {
+    if (this.weapon.entity === this) {
+      await this.weapon.load();
+    }
+  }
+
+  /**
+   * Creates a projectile from a save. Called once all other entities has been added.
+   */
+  public static restore(data: MIXSaveGameEntityData, map: GameMap): ProjectileEntity {
+    const state = data.state as MIXSaveGameProjectileState;
+    const source = map.getEntityById(state.source) as GameMapEntity | undefined;
+    const target = state.target !== undefined ? map.getEntityById(state.target) : undefined;
+    const weapon = source ? source.getWeapon(state.weapon) : undefined;
+
+    return new ProjectileEntity(weapon || state.weapon, target, map, data.id);
+  }
+
+  public destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    super.destroy();
+
+    if (this.bullet.Explosion) {
+      this.map.factory.load('effect', {
+        name: this.bullet.Explosion,
+        cell: this.target ? this.target.getCell() : cellFromPoint(this.targetPosition)
+      }, (effect: any): void => effect.setCenterEntity(this));
+    }
+
+    this.weapon.map.removeEntity(this);
+  }
+
+  private createTrail(): void {
+    if (this.weapon.trailSprite && !this.destroyed) {
+      this.map.factory.load('effect', {
+        name: 'SMOKEY',
+        player: -1,
+        cell: this.cell
+      }, (effect: any): void => {
+        effect.setPosition(this.getPosition());
+        effect.setCenterEntity(this);
+      });
+    }
+  }
+
+  public onUpdate(deltaTime: number): void {
+    if (this.bullet.BulletSpeed === -1) {
+      this.onHit();
+    } else {
+      const speed = this.bullet.BulletSpeed / 18;
+      const directions = 32;
+      const position = this.position.clone() as Vector;
+      if (this.target) {
+        this.targetPosition = this.target.getPosition();
+      }
+
+      const targetPosition = this.targetPosition;
+
+      const direction = getDirection(targetPosition, position, directions);
+      const angleRadians = (direction / directions) * 2 * Math.PI;
+      const vel = new Vector(speed * Math.sin(angleRadians), speed * Math.cos(angleRadians));
+      const distance = targetPosition.distance(position);
+
+      if (distance < speed) {
+        this.onHit();
+      } else {
+        if (this.trailTick <= 0) {
+          this.createTrail();
+          this.trailTick = this.map.cosmeticRandom.between(4, 12);
+        }
+
+        this.position.subtract(vel);
+        this.direction = direction;
+        this.cell = cellFromPoint(this.position);
+      }
+    }
+
+    this.trailTick--;
+  }
+
+  public onRender(deltaTime: number): void {
+    if (this.weapon.sprite) {
+      const frame = new Vector(0, this.direction);
+      const context = this.weapon.map.overlay.getContext();
+      this.weapon.sprite.render(frame, this.position, context);
+    }
+  }
+
+  protected onHit(): void {
+    if (this.target) {
+      const damage = this.weapon.weapon.Damage;
+      const armor = this.target.getArmor();
+      const verses = this.warhead.Verses[armor];
+      const take = verses / 100;
+      const finalDamage = damage * take;
+      const source = this.weapon.entity !== this ? this.weapon.entity : undefined;
+
+      // TODO: Apparently if there's multiple units in same cell, you divide by three
+      this.target.takeDamage(finalDamage, source);
+    }
+
+    this.destroy();
+  }
+}
@@ -18,8 +18,8 @@ export class SmudgeEntity extends GameMapEntity {
     };
   }
 
-  public async init(): Promise<void> {
-    await super.init();
+  public init(): void {
+    super.init();
 
     if (this.sprite) {
       this.setDimension(this.sprite.size);
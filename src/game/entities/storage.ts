@@ -6,7 +6,7 @@
 import { Entity, Sprite } from '../../engine';
 import { spriteFromName } from '../sprites';
 import { GameEntity } from '../entity';
-import { GameEngine } from '../game';
+import { GameMapEngine } from '../game';
 import { Vector } from 'vector2d';
 
 const SLOT_OFFSET_X = 13;
@@ -18,12 +18,12 @@ export class StorageBarEntity extends Entity {
   private parent: GameEntity;
   private sprite: Sprite = spriteFromName('UPDATEC.MIX/hpips.png');
   private lastSlots: number = -1;
-  private readonly engine: GameEngine;
+  private readonly engine: GameMapEngine;
   protected readonly context: CanvasRenderingContext2D = this.canvas.getContext('2d', { alpha: false }) as CanvasRenderingContext2D;
   protected background: Entity = new Entity();
   protected foreground: Entity = new Entity();
 
-  public constructor(parent: GameEntity, engine: GameEngine) {
+  public constructor(parent: GameEntity, engine: GameMapEngine) {
     super();
     this.parent = parent;
     this.engine = engine;
@@ -23,6 +23,7 @@ export class StructureEntity extends GameMapEntity {
   protected animation: string = 'Idle';
   protected bibOffset: number = 0;
   protected bib?: BibEntity;
+  protected activity?: string;
   protected constructing: boolean = true;
   protected repairSprite?: Sprite;
   protected repairAnimation?: Animation;
@@ -44,8 +45,8 @@ export class StructureEntity extends GameMapEntity {
     };
   }
 
-  public async init(): Promise<void> {
-    await super.init();
+  public init(): void {
+    super.init();
 
     const size = this.properties!.Dimensions.clone() as Vector;
     this.dimension = size.mulS(CELL_SIZE);
@@ -78,15 +79,13 @@ export class StructureEntity extends GameMapEntity {
       this.overlaySprite = spriteFromName(`CONQUER.MIX/weap2.png`);
       this.overlayAnimation = new Animation('Idle', new Vector(0, 0), this.overlaySprite.frames, 0.1, false);
       this.overlap = undefined;
-      await this.engine.loadArchiveSprite(this.overlaySprite);
     }
 
     this.repairSprite = spriteFromName('CONQUER.MIX/select.png');
-    await this.engine.loadArchiveSprite(this.repairSprite);
     this.repairAnimation = new Animation('repair-animation', new Vector(0, 2), 2, 0.05);
 
     if (!this.isCivilian() && !this.isWall()) {
-      await this.initMake();
+      this.initMake();
     }
 
     if (this.map.isCreated()) {
@@ -95,11 +94,6 @@ export class StructureEntity extends GameMapEntity {
       this.constructing = false;
     }
 
-    if (this.properties!.HasBib) {
-      const size = this.properties!.Dimensions.clone() as Vector;
-      this.bib = await BibEntity.createOrCache(this.engine, size, this.map.getTheatre());
-    }
-
     // NOTE: Apparenty the game does this internally
     this.hitPoints = this.properties!.HitPoints * 2;
     if (this.data.health) {
@@ -109,23 +103,37 @@ export class StructureEntity extends GameMapEntity {
     }
   }
 
-  protected async initMake(): Promise<void> {
-    const spriteName = `CONQUER.MIX/${this.data.name.toLowerCase()}make.png`;
-    const sprite = spriteFromName(spriteName);
+  public async load(): Promise<void> {
+    await super.load();
 
-    if (sprite.frames > 0) {
+    const sprites = [this.overlaySprite, this.repairSprite, this.constructionSprite]
+      .filter((sprite): sprite is Sprite => !!sprite);
+
+    for (const sprite of sprites) {
       try {
         await this.engine.loadArchiveSprite(sprite);
-
-        this.constructionSprite = sprite;
-        this.constructionAnimation = new Animation(this.data.name + 'MAKE', new Vector(0, 0), sprite.frames, 0.5);
-        this.constructionAnimation.once('done', () => {
-          this.constructing = false;
-        });
       } catch (e) {
-        console.error('StructureEntity::initConstruct()', e);
+        console.error('StructureEntity::load()', e);
       }
     }
+
+    if (this.properties!.HasBib) {
+      const size = this.properties!.Dimensions.clone() as Vector;
+      this.bib = await BibEntity.createOrCache(this.engine, size, this.map.getTheatre());
+    }
+  }
+
+  protected initMake(): void {
+    const spriteName = `CONQUER.MIX/${this.data.name.toLowerCase()}make.png`;
+    const sprite = spriteFromName(spriteName);
+
+    if (sprite.frames > 0) {
+      this.constructionSprite = sprite;
+      this.constructionAnimation = new Animation(this.data.name + 'MAKE', new Vector(0, 0), sprite.frames, 0.5);
+      this.constructionAnimation.once('done', () => {
+        this.constructing = false;
+      });
+    }
   }
 
   public repair(): void {
@@ -137,7 +145,7 @@ export class StructureEntity extends GameMapEntity {
   public sell(): void {
     this.reportDestroy = undefined;
 
-    if (this.isPlayer()) {
+    if (this.player) {
       const rules = this.engine.mix.getGeneralRules();
       this.player!.addCredits(
         this.properties.Cost * rules.RefundPercent
@@ -159,6 +167,13 @@ export class StructureEntity extends GameMapEntity {
     this.engine.playArchiveSfx('SOUNDS.MIX/cashturn.wav', 'gui');
   }
 
+  /**
+   * Sets an animation that replaces the idle state, ie. a refinery unloading
+   */
+  public setActivity(name?: string): void {
+    this.activity = name;
+  }
+
   public updateWall(): void {
     if (this.sprite && this.isWall()) {
       const lastFrameIndex = this.frameOffset.y;
@@ -204,12 +219,13 @@ export class StructureEntity extends GameMapEntity {
       }
     }
 
+    const idle = this.activity && this.animations.has(this.activity) ? this.activity : 'Idle';
     if (this.getDamageState() > 1) {
       this.animation = 'Destroyed';
     } else if (this.getDamageState() === 1){
-      this.animation = 'Idle-Damaged';
+      this.animation = `${idle}-Damaged`;
     } else {
-      this.animation = 'Idle';
+      this.animation = idle;
     }
   }
 
@@ -273,11 +289,11 @@ export class StructureEntity extends GameMapEntity {
   }
 
   public isSellable(): boolean {
-    return this.isPlayer();
+    return true;
   }
 
   public isRepairable(): boolean {
-    return this.isPlayer() && (this.health < this.hitPoints);
+    return this.health < this.hitPoints;
   }
 
   public isSelectable(): boolean {
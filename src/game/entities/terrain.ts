@@ -26,8 +26,8 @@ export class TerrainEntity extends GameMapEntity {
     };
   }
 
-  public async init(): Promise<void> {
-    await super.init();
+  public init(): void {
+    super.init();
 
     if (this.sprite) {
       this.setDimension(this.sprite.size);
@@ -44,7 +44,7 @@ export class TerrainEntity extends GameMapEntity {
     return '#002200';
   }
 
-  private isTiberiumTree(): boolean {
+  public isTiberiumTree(): boolean {
     return this.data.name.substr(0, 5) === 'SPLIT';
   }
 }
@@ -4,13 +4,18 @@
  * @license MIT
  */
 import { OverlayEntity } from './overlay';
-import { MIXGrid } from '../mix';
+import { MIXGrid, MIXSaveGameTiberiumState } from '../mix';
+
+/**
+ * Maximum number of bails in a cell
+ */
+export const TIBERIUM_MAX = 11;
 
 /**
  * Overlay Entity
  */
 export class TiberiumEntity extends OverlayEntity {
-  protected tiberiumLeft = 11;
+  protected tiberiumLeft = TIBERIUM_MAX;
   protected zIndex: number = 1;
   protected occupy: MIXGrid = { name: '', grid: [] };
 
@@ -21,6 +26,28 @@ export class TiberiumEntity extends OverlayEntity {
     };
   }
 
+  public getState(): MIXSaveGameTiberiumState {
+    return {
+      ...super.getState(),
+      tiberium: this.tiberiumLeft
+    };
+  }
+
+  public init(): void {
+    super.init();
+    this.updateLand();
+  }
+
+  public restoreState(state: MIXSaveGameTiberiumState): void {
+    super.restoreState(state);
+    this.tiberiumLeft = state.tiberium;
+    this.updateLand();
+  }
+
+  public getChecksumValues(): number[] {
+    return [...super.getChecksumValues(), this.tiberiumLeft];
+  }
+
   public onUpdate(deltaTime: number): void {
     super.onUpdate(deltaTime);
     this.frameOffset.setY(this.tiberiumLeft);
@@ -32,6 +59,25 @@ export class TiberiumEntity extends OverlayEntity {
 
   public subtractTiberium(): void {
     this.tiberiumLeft = Math.max(0, this.tiberiumLeft - 1);
+    this.updateLand();
+  }
+
+  public growTiberium(): void {
+    this.tiberiumLeft = Math.min(TIBERIUM_MAX, this.tiberiumLeft + 1);
+    this.updateLand();
+  }
+
+  public setTiberium(value: number): void {
+    this.tiberiumLeft = Math.max(0, Math.min(TIBERIUM_MAX, value));
+    this.updateLand();
+  }
+
+  protected updateLand(): void {
+    this.map.setLandOverride(this.cell, this.hasTiberium() ? 'Tiberium' : undefined);
+  }
+
+  public isFullyGrown(): boolean {
+    return this.tiberiumLeft >= TIBERIUM_MAX;
   }
 
   public hasTiberium(): boolean {
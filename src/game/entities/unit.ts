@@ -5,13 +5,31 @@
  */
 
 import { Animation, Sprite }  from '../../engine';
-import { MIXUnit, humanDirections } from '../mix';
-import { findClosestPosition, CELL_SIZE } from '../physics';
+import { MIXUnit, MIXSaveGameUnitState, humanDirections } from '../mix';
+import { findClosestPosition, getDirection, CELL_SIZE } from '../physics';
 import { spriteFromName } from '../sprites';
 import { GameMapEntity } from './mapentity';
+import { StructureEntity } from './structure';
 import { TiberiumEntity } from './tiberium';
+import { GameEntity } from '../entity';
+import { GameMapLocomotor, getLocomotor } from '../pathfinding';
 import { Vector } from 'vector2d';
 
+/**
+ * Facing of a harvester docked at a refinery
+ */
+const DOCK_DIRECTION = 14;
+
+/**
+ * Ticks it takes to unload one bail
+ */
+const UNLOAD_TICKS = 10;
+
+/**
+ * How close to a busy refinery (in cells) harvesters stop and wait their turn
+ */
+const DOCK_QUEUE_DISTANCE = 3;
+
 /**
  * Unit Entity
  */
@@ -27,6 +45,8 @@ export class UnitEntity extends GameMapEntity {
   protected reportAttack?: string = 'ACKNO';
   protected zIndex: number = 3;
   protected harvesting: boolean = false;
+  protected refinery?: GameMapEntity;
+  protected unloadTicks: number = 0;
 
   public toJson(): any {
     return {
@@ -35,7 +55,25 @@ export class UnitEntity extends GameMapEntity {
     };
   }
 
-  public async init(): Promise<void> {
+  public getState(): MIXSaveGameUnitState {
+    return {
+      ...super.getState(),
+      harvesting: this.harvesting,
+      refinery: this.refinery ? this.refinery.id : undefined,
+      unloadTicks: this.unloadTicks
+    };
+  }
+
+  public restoreState(state: MIXSaveGameUnitState): void {
+    super.restoreState(state);
+    this.harvesting = state.harvesting;
+    this.refinery = state.refinery !== undefined
+      ? this.map.getEntityById(state.refinery) as GameMapEntity | undefined
+      : undefined;
+    this.unloadTicks = state.unloadTicks || 0;
+  }
+
+  public init(): void {
     if (this.properties.HasTurret) {
       this.turretDirection = this.direction;
     }
@@ -44,7 +82,7 @@ export class UnitEntity extends GameMapEntity {
       this.storageSlots[1] = 10;
     }
 
-    await super.init();
+    super.init();
 
     if (!this.sprite) {
       return;
@@ -60,8 +98,6 @@ export class UnitEntity extends GameMapEntity {
 
       const half = this.wakeSprite.frames / 2;
       this.wakeAnimation = new Animation('Idle', new Vector(0, 0), half, 0.2);
-
-      await this.engine.loadArchiveSprite(this.wakeSprite);
     } else {
       if (this.sprite.size.x > CELL_SIZE) {
         this.offset.setX((this.sprite.size.x / 2) - (CELL_SIZE / 2));
@@ -72,7 +108,21 @@ export class UnitEntity extends GameMapEntity {
 
       this.damagedSmoke = spriteFromName('CONQUER.MIX/smoke_m.png');
       this.damagedSmokeAnimation = new Animation('Damaged-Smoke', new Vector(0, 0), this.damagedSmoke.frames, 0.5);
-      await this.engine.loadArchiveSprite(this.damagedSmoke);
+    }
+  }
+
+  public async load(): Promise<void> {
+    await super.load();
+
+    const sprites = [this.wakeSprite, this.damagedSmoke]
+      .filter((sprite): sprite is Sprite => !!sprite);
+
+    for (const sprite of sprites) {
+      try {
+        await this.engine.loadArchiveSprite(sprite);
+      } catch (e) {
+        console.error('UnitEntity::load()', e);
+      }
     }
   }
 
@@ -88,45 +138,215 @@ export class UnitEntity extends GameMapEntity {
     }
   }
 
-  protected moveTo(position: Vector, report: boolean = false, force: boolean = false): boolean {
+  protected moveTo(position: Vector, report: boolean = false, force: boolean = false, plannedPath?: Vector[]): boolean {
     this.animation = '';
-    return super.moveTo(position, report, force);
+    return super.moveTo(position, report, force, plannedPath);
   }
 
-  protected returnHome(): void {
-    if (this.targetPosition) {
-      return;
+  public enter(entity: GameEntity, report: boolean = false): boolean {
+    if (this.canHarvest() && entity.isRefinery()) {
+      this.targetEntity = undefined;
+      this.targetAction = 'harvest-return';
+      this.refinery = entity as GameMapEntity;
+      this.unloadTicks = 0;
     }
 
+    return super.enter(entity, report);
+  }
+
+  protected returnHome(): void {
     if (this.canHarvest()) {
       const procs = this.map.getEntities()
         .filter(e => e.getPlayerId() === this.getPlayerId())
-        .filter(e => e.isRefinery());
+        .filter(e => e.isRefinery() && !e.isDestroyed());
         // FIXME: Damage state
 
       const positions = procs.map(e => e.getPosition());
       const closest = findClosestPosition(this.position, positions);
 
       if (closest === -1) {
-        console.log('Could not find a refinery.')
+        console.warn('UnitEntity::returnHome()', 'Could not find a refinery');
       } else {
-        const proc = procs[closest] as GameMapEntity;
-        this.targetAction = 'harvest-return';
+        this.enter(procs[closest], false);
+      }
+    }
+  }
+
+  /**
+   * Docks at the refinery and unloads one bail at a time.
+   * Only one harvester docks at a time, the others wait close by for their turn.
+   */
+  protected dock(): void {
+    const proc = this.refinery;
+    if (!proc) {
+      this.targetAction = undefined;
+      this.returnHome();
+      return;
+    }
+
+    const destination = this.getDockCell(proc);
+    const busy = this.map.getEntities()
+      .some(e => e !== this && e instanceof UnitEntity && !e.isDestroyed() && e.isDockedAt(proc));
+
+    if (busy) {
+      const distance = Math.max(Math.abs(this.cell.x - destination.x), Math.abs(this.cell.y - destination.y));
+      if (distance <= DOCK_QUEUE_DISTANCE) {
+        this.currentPath = [];
+        this.pathRequest = undefined;
+      }
+      return;
+    }
+
+    if (this.currentPath.length > 0 || this.targetPosition || this.pathRequest) {
+      return;
+    }
+
+    if (!this.cell.equals(destination)) {
+      if ((this.map.getTicks() % 10) === 0) {
         this.enter(proc, false);
       }
+      return;
+    }
 
-      console.error(closest, this.targetEntity)
+    if (Math.round(this.direction) !== DOCK_DIRECTION) {
+      this.targetDirection = DOCK_DIRECTION;
+      this.setRefineryActivity('Docking');
+      return;
     }
+
+    this.setRefineryActivity('Unloading');
+
+    this.unloadTicks++;
+    if (this.storageSlots[0] > 0 && (this.unloadTicks % UNLOAD_TICKS) === 0) {
+      const credits = this.engine.mix.getGeneralRules().TiberiumValue;
+      this.storageSlots[0]--;
+
+      if (this.player) {
+        this.player.addCredits(credits);
+        this.map.statistics.onHarvested(this.player, credits);
+      }
+    }
+
+    if (this.storageSlots[0] === 0) {
+      this.undock();
+
+      const field = this.findTiberium();
+      if (field) {
+        this.harvest(field);
+      } else {
+        this.targetAction = undefined;
+      }
+    }
+  }
+
+  /**
+   * Gunboats sail back and forth along the shore and fire at anything in range
+   */
+  protected patrol(): void {
+    if (this.primaryWeapon) {
+      const sight = this.getWeaponSight();
+      const enemy = this.map.getClosestEnemy(this, (e: GameEntity) => {
+        return e.isSelectable() && e.getCell().distance(this.cell) <= sight;
+      });
+
+      if (enemy) {
+        this.turretDirection = getDirection(enemy.getCell(), this.cell, this.turretDirections);
+        this.primaryWeapon.fire(enemy);
+      }
+    }
+
+    if (this.currentPath.length === 0 && !this.targetPosition && !this.pathRequest && (this.map.getTicks() % 10) === 0) {
+      const destination = this.getPatrolDestination();
+      if (destination) {
+        this.moveTo(destination);
+      }
+    }
+  }
+
+  /**
+   * Furthest water cell on the current row, in the direction the boat is facing
+   */
+  protected getPatrolDestination(): Vector | undefined {
+    const { x, y } = this.cell;
+    const east = Math.round(this.direction) === getDirection(new Vector(1, 0), new Vector(0, 0), this.directions);
+    const scan = (step: number): number => {
+      let cx = x;
+      while (this.map.naval.isWalkableAt(cx + step, y)) {
+        cx += step;
+      }
+      return cx;
+    };
+
+    const ahead = scan(east ? 1 : -1);
+    const destination = ahead !== x ? ahead : scan(east ? -1 : 1);
+
+    return destination !== x ? new Vector(destination, y) : undefined;
+  }
+
+  /**
+   * Checks if this harvester is at the dock of a refinery
+   */
+  public isDockedAt(proc: GameEntity): boolean {
+    return this.refinery === proc && this.cell.equals(this.getDockCell(proc));
+  }
+
+  protected getDockCell(proc: GameEntity): Vector {
+    return proc.getCell().add(proc.getEnterOffset()) as Vector;
+  }
+
+  protected undock(): void {
+    if (this.refinery && this.isDockedAt(this.refinery)) {
+      this.setRefineryActivity();
+    }
+
+    this.refinery = undefined;
+    this.unloadTicks = 0;
+  }
+
+  protected setRefineryActivity(name?: string): void {
+    if (this.refinery instanceof StructureEntity) {
+      this.refinery.setActivity(name);
+    }
+  }
+
+  /**
+   * Finds the closest field that still has tiberium
+   */
+  protected findTiberium(): TiberiumEntity | undefined {
+    const fields = this.map.getEntities()
+      .filter(e => e.isTiberium() && !e.isDestroyed())
+      .filter(e => (e as TiberiumEntity).hasTiberium());
+
+    const closest = findClosestPosition(this.position, fields.map(e => e.getPosition()));
+    return closest === -1 ? undefined : fields[closest] as TiberiumEntity;
   }
 
   protected harvestResource(target: GameMapEntity): void {
     if (this.storageSlots[0] >= this.storageSlots[1]) {
       this.animation = '';
       this.targetEntity = undefined;
+      this.targetAction = undefined;
       this.returnHome();
       return;
     }
 
+    if (!(target as TiberiumEntity).hasTiberium()) {
+      const field = this.findTiberium();
+      this.animation = '';
+
+      if (field) {
+        this.harvest(field);
+      } else {
+        this.targetEntity = undefined;
+        this.targetAction = undefined;
+
+        if (this.storageSlots[0] > 0) {
+          this.returnHome();
+        }
+      }
+      return;
+    }
+
     const dir = Math.round(this.getDirection() / 4);
     const hdir = humanDirections[dir];
     const animationName = `Harvest-${hdir}`;
@@ -163,6 +383,7 @@ export class UnitEntity extends GameMapEntity {
         cell: this.cell.clone() as Vector
       }, (effect: any) => effect.setCenterEntity(this));
 
+      this.undock();
       this.destroy();
 
       return true;
@@ -182,14 +403,16 @@ export class UnitEntity extends GameMapEntity {
       this.damagedSmokeAnimation.onUpdate();
     }
 
-    if (this.targetAction === 'harvest-return') {
-      if (this.currentPath.length === 0) {
-        if (this.direction !== 14) {
-          // TODO
-        } else {
-          this.targetDirection = 14;
-        }
-      }
+    if (this.refinery && (this.targetAction !== 'harvest-return' || this.refinery.isDestroyed())) {
+      this.undock();
+    }
+
+    if (this.targetAction === 'harvest-return' && !this.dying) {
+      this.dock();
+    }
+
+    if (this.data.name === 'BOAT' && !this.dying && !this.targetEntity) {
+      this.patrol();
     }
   }
 
@@ -248,6 +471,10 @@ export class UnitEntity extends GameMapEntity {
     return this.properties!.TurnSpeed;
   }
 
+  public getLocomotor(): GameMapLocomotor {
+    return getLocomotor(this.properties.MovementType);
+  }
+
   public canRotate(): boolean {
     return !this.properties!.CantTurn;
   }
@@ -257,7 +484,7 @@ export class UnitEntity extends GameMapEntity {
   }
 
   public isDeployable(): boolean {
-    return this.isPlayer() && this.data.name === 'MCV';
+    return this.data.name === 'MCV';
   }
 
   public isSelectable(): boolean {
@@ -265,7 +492,7 @@ export class UnitEntity extends GameMapEntity {
   }
 
   public isMovable(): boolean {
-    return this.data.name !== 'BOAT'; // FIXME
+    return true;
   }
 
   public isUnit(): boolean {
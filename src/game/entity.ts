@@ -4,21 +4,22 @@
  * @license MIT
  */
 
-import { Entity, Box, randomBetweenInteger } from '../engine';
+import { Entity, Box } from '../engine';
 import { Player } from './player';
-import { GameEngine } from './game';
+import { GameMapEngine } from './game';
 import { GameMap } from './map';
 import { cellFromPoint, pointFromCell, CELL_SIZE } from './physics';
-import { soundMap, wallNames } from './mix';
+import { MIXSaveGameEntityState, soundMap, wallNames } from './mix';
 import { Vector } from 'vector2d';
 
 export abstract class GameEntity extends Entity {
+  public readonly id: number;
   public readonly map: GameMap;
   public player?: Player;
   protected offset: Vector = new Vector(0, 0);
   protected cell: Vector = new Vector(0, 0);
   protected rendered: boolean = false;
-  protected engine: GameEngine;
+  protected engine: GameMapEngine;
   protected selected: boolean = false;
   protected dying: boolean = false;
   protected repairing: boolean = false;
@@ -33,12 +34,14 @@ export abstract class GameEntity extends Entity {
   protected subCell: number = -1;
   protected primary: boolean = false;
   protected storageSlots: number[] = [0, 0]; // Taken / Available
+  protected attacker?: GameEntity;
 
-  public constructor(map: GameMap) {
+  public constructor(map: GameMap, id?: number) {
     super();
 
     this.map = map;
     this.engine = map.engine;
+    this.id = id !== undefined ? id : map.createEntityId(this.isCosmetic());
   }
 
   public destroy(): void {
@@ -54,12 +57,66 @@ export abstract class GameEntity extends Entity {
 
   public toJson(): any {
     return {
+      id: this.id,
       cell: this.cell.toObject(),
       health: this.health
     };
   }
 
-  public async init(): Promise<void> {
+  /**
+   * Runtime state that is not part of the map data (see GameMap::toJson())
+   */
+  public getState(): MIXSaveGameEntityState {
+    return {
+      position: this.position.toObject(),
+      direction: this.direction,
+      turretDirection: this.turretDirection,
+      subCell: this.subCell,
+      health: this.health,
+      primary: this.primary,
+      repairing: this.repairing,
+      storageSlots: [...this.storageSlots]
+    };
+  }
+
+  /**
+   * Restores runtime state from a save. Called after all entities has been initialized.
+   */
+  public restoreState(state: MIXSaveGameEntityState): void {
+    this.position = new Vector(state.position.x, state.position.y);
+    this.direction = state.direction;
+    this.turretDirection = state.turretDirection;
+    this.subCell = state.subCell;
+    this.health = state.health;
+    this.primary = state.primary;
+    this.repairing = state.repairing;
+    this.storageSlots = [...state.storageSlots];
+  }
+
+  /**
+   * Values that describes the simulation state of this entity
+   */
+  public getChecksumValues(): number[] {
+    return [
+      this.id,
+      this.cell.x,
+      this.cell.y,
+      Math.round(this.position.x),
+      Math.round(this.position.y),
+      Math.round(this.health)
+    ];
+  }
+
+  /**
+   * Sets up the simulation state. Called when added to the map.
+   */
+  public init(): void {
+  }
+
+  /**
+   * Loads sprites and other assets. Called after init() and does not affect the simulation.
+   */
+  public async load(): Promise<void> {
   }
 
   public onUpdate(deltaTime: number): void {
@@ -104,7 +161,7 @@ export abstract class GameEntity extends Entity {
 
   public async playSfx(name: string): Promise<void> {
     const count = soundMap[name];
-    const suffix = count > 1 ? `-${randomBetweenInteger(1, count)}` : '';
+    const suffix = count > 1 ? `-${this.map.cosmeticRandom.between(1, count)}` : '';
     const source = `SOUNDS.MIX/${name.toLowerCase()}${suffix}.wav`;
     console.debug('GameEntity::playSfx()', { source, name, count });
 
@@ -150,17 +207,23 @@ export abstract class GameEntity extends Entity {
   public capture(target: GameEntity): void {
   }
 
+  public hunt(): void {
+  }
+
   protected moveTo(position: Vector, report: boolean = false, force: boolean = false): boolean {
     return false;
   }
 
-  public takeDamage(value: number): void {
+  public takeDamage(value: number, attacker?: GameEntity): void {
     if (this.health > 0) {
       this.health = Math.max(0, this.health - value);
+      this.attacker = attacker;
 
       console.debug('GameEntity::takeDamage()', value, this.health);
       if (this.health <= 0) {
         this.die();
+      } else {
+        this.map.onEntityEvent('Attacked', this);
       }
     }
   }
@@ -282,6 +345,10 @@ export abstract class GameEntity extends Entity {
     return '';
   }
 
+  public getTriggerName(): string {
+    return '';
+  }
+
   public getSubCell(): number {
     return this.subCell;
   }
@@ -307,8 +374,7 @@ export abstract class GameEntity extends Entity {
   }
 
   public canReveal(): boolean {
-    // FIXME: Neutral ?
-    return this.isPlayer();
+    return !!this.player;
   }
 
   public canAttack(): boolean {
@@ -344,7 +410,7 @@ export abstract class GameEntity extends Entity {
   }
 
   public isCapturable(): boolean {
-    return this.isStructure() && !this.isWall() && !this.isPlayer(); // FIXME
+    return this.isStructure() && !this.isWall();
   }
 
   public isAttackable(source: GameEntity): boolean {
@@ -411,10 +477,21 @@ export abstract class GameEntity extends Entity {
     return false;
   }
 
+  public isAircraft(): boolean {
+    return false;
+  }
+
   public isTiberium(): boolean {
     return false;
   }
 
+  /**
+   * Entities that only exists for visuals and is not part of the simulation
+   */
+  public isCosmetic(): boolean {
+    return false;
+  }
+
   public isPrimary(): boolean {
     return this.primary;
   }
@@ -0,0 +1,189 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMap } from './map';
+import { GameEntity } from './entity';
+import { GameMapEntity } from './entities/mapentity';
+import { GameMapLocomotor, GameMapPathCost, followFlowField } from './pathfinding';
+import { INFANTRY_PER_CELL } from './occupancy';
+import { Vector } from 'vector2d';
+
+/**
+ * Groups spread further apart than this are gathered around the target instead of keeping their formation
+ */
+export const FORMATION_SPREAD = 3;
+
+/**
+ * Groups of this size or larger share a flow field instead of finding one path each
+ */
+export const FLOW_FIELD_GROUP_SIZE = 5;
+
+/**
+ * How close to its own destination a unit leaves the shared flow field
+ */
+const FLOW_FIELD_EXIT_DISTANCE = 2;
+
+/**
+ * How far from the wanted spot a free destination is searched for
+ */
+const SEARCH_RADIUS = 8;
+
+const cellKey = (cell: Vector): string => `${cell.x},${cell.y}`;
+
+const chebyshev = (a: Vector, b: Vector): number =>
+  Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+
+/**
+ * Moves a group of units and infantry to a cell without piling them up
+ */
+export class GameMapFormation {
+  private readonly map: GameMap;
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  /**
+   * Gives each entity its own destination around the target, keeping the
+   * relative formation of compact groups
+   */
+  public move(entities: GameEntity[], cell: Vector, report: boolean = false): void {
+    const group = entities
+      .filter(e => e.isMovable() && !e.isDestroyed()) as GameMapEntity[];
+
+    if (group.length === 1) {
+      group[0].move(cell, report);
+      return;
+    }
+
+    const destinations = this.getDestinations(group, cell);
+    const fields: Map<GameMapLocomotor, Float64Array | undefined> = new Map();
+    const shared = group.length >= FLOW_FIELD_GROUP_SIZE;
+
+    group.forEach((e, i) => {
+      const destination = destinations.get(e)!;
+      const locomotor = e.getLocomotor();
+
+      // NOTE: The flow field is one search of the pathfinder budget that the whole group follows.
+      // If the budget is already spent everyone waits in line for a path of their own.
+      if (shared) {
+        if (!fields.get(locomotor)) {
+          fields.set(locomotor, this.map.pathfinder.createFlowField(cell, locomotor));
+        }
+
+        const field = fields.get(locomotor);
+        const path = field ? this.getFlowPath(e, destination, field) : undefined;
+        if (path) {
+          e.move(destination, report && i === 0, path);
+          return;
+        }
+      }
+
+      e.move(destination, report && i === 0);
+    });
+  }
+
+  /**
+   * Assigns a destination cell to every member of a group. Infantry share
+   * cells, everything else gets a cell of its own.
+   */
+  public getDestinations(group: GameMapEntity[], cell: Vector): Map<GameMapEntity, Vector> {
+    const result: Map<GameMapEntity, Vector> = new Map();
+    const taken: Map<string, number> = new Map();
+    const center = this.getCenter(group);
+    const formation = group.every(e => chebyshev(e.getCell(), center) <= FORMATION_SPREAD);
+
+    // NOTE: The closest get served first so that the ones behind queue up behind them
+    const sorted = [...group].sort((a, b) => {
+      const d = a.getCell().distance(cell) - b.getCell().distance(cell);
+      return d === 0 ? a.id - b.id : d;
+    });
+
+    for (const e of sorted) {
+      const wanted = formation
+        ? cell.clone().add(e.getCell().clone().subtract(center)) as Vector
+        : cell;
+
+      const destination = this.findFreeCell(wanted, e, group, taken) || cell;
+      const key = cellKey(destination);
+      taken.set(key, (taken.get(key) || 0) + (e.isInfantry() ? 1 : INFANTRY_PER_CELL));
+      result.set(e, destination);
+    }
+
+    return result;
+  }
+
+  /**
+   * Follows the shared flow field until close to the destination, then finds
+   * the last stretch with a local search
+   */
+  private getFlowPath(entity: GameMapEntity, destination: Vector, field: Float64Array): Vector[] | undefined {
+    const locomotor = entity.getLocomotor();
+    const dimension = this.map.getMapDimension();
+    const flow = followFlowField(field, entity.getCell(), dimension, this.getCost(locomotor));
+    const index = flow.findIndex(c => chebyshev(c, destination) <= FLOW_FIELD_EXIT_DISTANCE);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    const head = flow.slice(0, index + 1);
+    const exit = head[head.length - 1];
+    if (exit.equals(destination)) {
+      return head;
+    }
+
+    const tail = this.map.pathfinder.findLocalPath(exit, destination, locomotor);
+    return tail.length > 0 ? [...head, ...tail] : undefined;
+  }
+
+  private findFreeCell(wanted: Vector, entity: GameMapEntity, group: GameMapEntity[], taken: Map<string, number>): Vector | undefined {
+    const locomotor = entity.getLocomotor();
+    const dimension = this.map.getMapDimension();
+    const room = entity.isInfantry() ? 1 : INFANTRY_PER_CELL;
+
+    const isFree = (c: Vector): boolean => {
+      if (c.x < 0 || c.y < 0 || c.x >= dimension.x || c.y >= dimension.y) {
+        return false;
+      }
+
+      if ((taken.get(cellKey(c)) || 0) + room > INFANTRY_PER_CELL) {
+        return false;
+      }
+
+      // NOTE: Members of the group are leaving, so only the rest count
+      const blockers = this.map.occupancy.getBlockers(c, entity)
+        .filter(e => group.indexOf(e) === -1 && !e.isMoving());
+
+      return blockers.length === 0 && this.map.getMovementCost(c, locomotor) !== Infinity;
+    };
+
+    for (let r = 0; r <= SEARCH_RADIUS; r++) {
+      for (let y = wanted.y - r; y <= wanted.y + r; y++) {
+        for (let x = wanted.x - r; x <= wanted.x + r; x++) {
+          if (Math.abs(x - wanted.x) !== r && Math.abs(y - wanted.y) !== r) {
+            continue;
+          }
+
+          const c = new Vector(x, y);
+          if (isFree(c)) {
+            return c;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private getCenter(group: GameMapEntity[]): Vector {
+    const sum = group.reduce((v, e) => v.add(e.getCell()) as Vector, new Vector(0, 0));
+    return new Vector(Math.round(sum.x / group.length), Math.round(sum.y / group.length));
+  }
+
+  private getCost(locomotor: GameMapLocomotor): GameMapPathCost {
+    return (x: number, y: number): number => this.map.getMovementCost(new Vector(x, y), locomotor);
+  }
+}
@@ -5,53 +5,172 @@
  */
 import { Entity } from '../engine';
 import { GameMap } from './map';
+import { GameEntity } from './entity';
+import { Player } from './player';
+import { MIXSaveGameFOW } from './mix';
 import { CELL_SIZE } from './physics';
 import { Vector } from 'vector2d';
 
-export class FOW extends Entity {
-  private map: GameMap;
-  private grid: any[] = [];
-  private updated: boolean = false;
+/**
+ * Revealed cells of every house.
+ *
+ * This is part of the simulation (ex. 'Discovered' triggers), so it is kept
+ * for all houses and not only the one playing on this client.
+ */
+export class GameMapVisibility {
+  private readonly map: GameMap;
+  private readonly cells: Map<Player, Uint8Array> = new Map();
+  private readonly revisions: Map<Player, number> = new Map();
+  private readonly revealed: Map<GameEntity, string> = new Map();
 
-  public constructor(map: GameMap)  {
-    super();
+  public constructor(map: GameMap) {
     this.map = map;
   }
 
-  public async init(): Promise<void> {
+  /**
+   * Reveals around entities that are new or has moved. Called every tick by the map.
+   */
+  public process(): void {
+    const seen: Set<GameEntity> = new Set();
+
+    for (let entity of this.map.getEntities()) {
+      if (!entity.player || entity.isDestroyed() || !entity.canReveal()) {
+        continue;
+      }
+
+      const box = entity.getCellBox();
+      const sight = entity.getSight();
+      const key = `${entity.player.getId()},${box.x1},${box.y1},${box.x2},${box.y2},${sight}`;
+      seen.add(entity);
+
+      if (this.revealed.get(entity) !== key) {
+        this.revealed.set(entity, key);
+        this.revealArea(entity.player, box.x1 - sight, box.y1 - sight, box.x2 + sight, box.y2 + sight);
+      }
+    }
+
+    for (let entity of this.revealed.keys()) {
+      if (!seen.has(entity)) {
+        this.revealed.delete(entity);
+      }
+    }
+  }
+
+  public revealAt(player: Player, cell: Vector, radius: number): void {
+    this.revealArea(player, cell.x - radius, cell.y - radius, cell.x + radius, cell.y + radius);
+  }
+
+  public isRevealedAt(player: Player, cell: Vector): boolean {
     const dimension = this.map.getMapDimension();
-    this.grid = Array(...Array(dimension.x)).map(() => Array(dimension.y));
+    if (cell.x < 0 || cell.y < 0 || cell.x >= dimension.x || cell.y >= dimension.y) {
+      return false;
+    }
 
-    this.context.fillStyle = 'rgba(0, 0, 0, 1)';
-    this.context.fillRect(0, 0, this.dimension.x, this.dimension.y);
+    const cells = this.cells.get(player);
+    return !!cells && cells[cell.y * dimension.x + cell.x] === 1;
   }
 
-  public onUpdate(deltaTime: number): void {
+  /**
+   * Increases every time something is revealed for a player
+   */
+  public getRevision(player: Player): number {
+    return this.revisions.get(player) || 0;
+  }
+
+  /**
+   * Gets revealed cells of each house as one string per row
+   */
+  public toJson(): MIXSaveGameFOW[] {
     const dimension = this.map.getMapDimension();
-    const entities = this.map.getEntities()
-      .filter(entity => entity.canReveal());
 
-    entities.forEach(entity => {
-      const box = entity.getCellBox();
-      const sight = entity.getSight();
+    return Array.from(this.cells.entries())
+      .sort(([a], [b]) => a.getId() - b.getId())
+      .map(([player, cells]): MIXSaveGameFOW => ({
+        player: player.getName(),
+        cells: Array.from({ length: dimension.y }, (_, y) => Array.from(cells.subarray(y * dimension.x, (y + 1) * dimension.x)).join(''))
+      }));
+  }
 
-      for (let y: number = box.y1 - sight; y <= box.y2 + sight; y++) {
-        for (let x: number = box.x1 - sight; x <= box.x2 + sight; x++) {
-          if (x < 0 || y < 0 || x >= dimension.x || y >= dimension.y) {
-            continue;
+  public restore(list: MIXSaveGameFOW[]): void {
+    for (let data of list) {
+      const player = this.map.getPlayerByName(data.player);
+      if (player) {
+        const cells = this.getCells(player);
+        const dimension = this.map.getMapDimension();
+
+        data.cells.forEach((row, y) => {
+          for (let x = 0; x < Math.min(row.length, dimension.x); x++) {
+            if (row[x] === '1') {
+              cells[y * dimension.x + x] = 1;
+            }
           }
+        });
 
-          if (this.grid[y] && !this.grid[y][x]) {
-            this.updated = true;
-            this.grid[y][x] = 1;
-          }
+        this.revisions.set(player, this.getRevision(player) + 1);
+      }
+    }
+  }
+
+  private revealArea(player: Player, x1: number, y1: number, x2: number, y2: number): void {
+    const dimension = this.map.getMapDimension();
+    const cells = this.getCells(player);
+    let updated = false;
+
+    for (let y = Math.max(0, y1); y <= Math.min(dimension.y - 1, y2); y++) {
+      for (let x = Math.max(0, x1); x <= Math.min(dimension.x - 1, x2); x++) {
+        const index = y * dimension.x + x;
+        if (!cells[index]) {
+          cells[index] = 1;
+          updated = true;
         }
       }
-    });
+    }
+
+    if (updated) {
+      this.revisions.set(player, this.getRevision(player) + 1);
+    }
+  }
+
+  private getCells(player: Player): Uint8Array {
+    let cells = this.cells.get(player);
+    if (!cells) {
+      const dimension = this.map.getMapDimension();
+      cells = new Uint8Array(dimension.x * dimension.y);
+      this.cells.set(player, cells);
+    }
+
+    return cells;
+  }
+}
+
+/**
+ * Renders the fog of war as seen by a player. Defaults to the session player.
+ */
+export class FOW extends Entity {
+  private map: GameMap;
+  private player?: Player;
+  private drawn: Uint8Array = new Uint8Array(0);
+  private revision: number = -1;
+
+  public constructor(map: GameMap, player?: Player)  {
+    super();
+    this.map = map;
+    this.player = player;
+  }
+
+  public async init(): Promise<void> {
+    const dimension = this.map.getMapDimension();
+    this.drawn = new Uint8Array(dimension.x * dimension.y);
+    this.revision = -1;
+
+    this.context.fillStyle = 'rgba(0, 0, 0, 1)';
+    this.context.fillRect(0, 0, this.dimension.x, this.dimension.y);
   }
 
   public onRender(deltaTime: number): void {
-    if (!this.updated) {
+    const player = this.getPlayer();
+    const revision = this.map.visibility.getRevision(player);
+    if (revision === this.revision) {
       return;
     }
 
@@ -59,14 +178,15 @@ export class FOW extends Entity {
       return;
     }
 
-    this.updated = false;
+    this.revision = revision;
 
     this.context.globalCompositeOperation = 'destination-out';
 
     const dimension = this.map.getMapDimension();
     for (let y = 0; y < dimension.y; y++) {
       for (let x = 0; x < dimension.x; x++) {
-        if (this.grid[y] && this.grid[y][x] === 1) {
+        const index = y * dimension.x + x;
+        if (!this.drawn[index] && this.map.visibility.isRevealedAt(player, new Vector(x, y))) {
           const px = x * CELL_SIZE;
           const py = y * CELL_SIZE;
 
@@ -80,7 +200,7 @@ export class FOW extends Entity {
           this.context.arc(px + (CELL_SIZE / 2), py + (CELL_SIZE / 2), CELL_SIZE + 2, 0, 2 * Math.PI, false);
           this.context.fill();
 
-          this.grid[y][x] = 2;
+          this.drawn[index] = 1;
         }
       }
     }
@@ -88,7 +208,11 @@ export class FOW extends Entity {
     this.context.globalCompositeOperation = 'source-over';
   }
 
-  public isRevealedAt(cell: Vector) {
-    return this.grid[cell.y] && this.grid[cell.y][cell.x] > 0;
+  public getPlayer(): Player {
+    return this.player || this.map.player;
+  }
+
+  public isRevealedAt(cell: Vector): boolean {
+    return this.map.visibility.isRevealedAt(this.getPlayer(), cell);
   }
 }
@@ -5,6 +5,8 @@
  */
 import {
   Engine,
+  CoreConfiguration,
+  MouseInput,
   Sprite,
   SoundEffect,
   DataArchive,
@@ -20,21 +22,42 @@ import { ScoreScene } from './scenes/score';
 import { LoadingScene } from './scenes/loading';
 import { Cursor } from './ui/cursor';
 import { Player } from './player';
-import { MIX, MIXPlayerName, MIXTeamName, gdiMaps, nodMaps } from './mix';
+import { GameReplayData } from './replay';
+import { LockstepTransport, WebSocketTransport } from './lockstep';
+import { GameSaveStorage } from './storage';
+import { GameCampaign } from './campaign';
+import { MIX, MIXPlayerName, MIXSaveGame, MIXTeamName } from './mix';
 
 export interface GameEngineConfig {
   scrollSpeed: number;
 }
 
+/**
+ * Engine features used by the map and its entities
+ */
+export interface GameMapEngine {
+  readonly mix: MIX;
+  readonly configuration: CoreConfiguration;
+  readonly mouse: Pick<MouseInput, 'getPosition' | 'getVector'>;
+  frames: number;
+  getScale(): number;
+  getDebug(): boolean;
+  loadArchiveSprite(sprite: Sprite): Promise<void>;
+  playArchiveSfx(source: string, node: string, sound?: Partial<SoundEffect>, queue?: string): Promise<void>;
+  onTheatreWon(): void;
+  onTheatreLost(): void;
+}
+
 /**
  * Game Engine
  */
-export class GameEngine extends Engine {
+export class GameEngine extends Engine implements GameMapEngine {
   public readonly data: DataArchive = new DataArchive('data.zip');
   public readonly mix: MIX = new MIX(this.data);
   public readonly imageLoader: DataArchiveImageLoader = new DataArchiveImageLoader(this.data);
   public readonly sfxLoader: DataArchiveSoundLoader = new DataArchiveSoundLoader(this, this.data);
   public readonly cursor: Cursor = new Cursor(this);
+  public readonly saves: GameSaveStorage = new GameSaveStorage();
   protected loaded: boolean = false;
   public readonly gameConfig: GameEngineConfig = {
     scrollSpeed: 4
@@ -108,6 +131,12 @@ export class GameEngine extends Engine {
 
         if (debugScene === 'theatre') {
           await this.pushTheatreScene(debugMap || 'scg01ea', debugPlayer as MIXPlayerName, true);
+        } else if (debugScene === 'multiplayer') {
+          const debugRelay: string = q.get('relay') || 'ws://localhost:8081';
+          const debugPlayers = (q.get('players') || 'Multi1,Multi2').split(',') as MIXPlayerName[];
+          const debugSeed = parseInt(q.get('seed') || '1', 10);
+          const transport = new WebSocketTransport(debugRelay);
+          await this.pushMultiplayerScene(debugMap || 'scm01ea', debugPlayer as MIXPlayerName, debugPlayers, transport, debugSeed);
         } else if (debugScene === 'team') {
           await this.pushTeamScene();
         } else if (debugScene === 'movie') {
@@ -152,7 +181,7 @@ export class GameEngine extends Engine {
     return this.nextScene();
   }
 
-  public async pushTheatreScene(name: string, player: MIXPlayerName, skipMovie: boolean = false): Promise<void> {
+  public async pushTheatreScene(name: string, player: MIXPlayerName, skipMovie: boolean = false, campaign?: GameCampaign): Promise<void> {
     const data = await this.mix.loadMap(name);
     const movieName = data.basic.Brief;
 
@@ -160,7 +189,33 @@ export class GameEngine extends Engine {
     if (!skipMovie) {
       this.pushScene(() => new MovieScene(movieName, this));
     }
-    this.pushScene(() => new TheatreScene(name, data, player, this));
+    this.pushScene(() => new TheatreScene(name, data, player, this, { campaign }));
+    return this.nextScene();
+  }
+
+  public async pushMultiplayerScene(name: string, player: MIXPlayerName, players: MIXPlayerName[], transport: LockstepTransport, seed: number): Promise<void> {
+    const data = await this.mix.loadMap(name);
+    const multiplayer = { transport, players, seed };
+
+    this.clearScenes();
+    this.pushScene(() => new TheatreScene(name, data, player, this, { multiplayer }));
+    return this.nextScene();
+  }
+
+  public async pushReplayScene(replay: GameReplayData): Promise<void> {
+    const data = await this.mix.loadMap(replay.name);
+
+    this.clearScenes();
+    this.pushScene(() => new TheatreScene(replay.name, data, replay.player, this, { replay }));
+    return this.nextScene();
+  }
+
+  public async pushSaveGameScene(save: MIXSaveGame): Promise<void> {
+    const data = await this.mix.loadMap(save.name);
+    const campaign = save.campaign ? new GameCampaign(save.campaign.team, save.campaign) : undefined;
+
+    this.clearScenes();
+    this.pushScene(() => new TheatreScene(save.name, data, save.player, this, { save, campaign }));
     return this.nextScene();
   }
 
@@ -170,14 +225,31 @@ export class GameEngine extends Engine {
     return this.nextScene();
   }
 
-  public async pushMapSelectionScene(): Promise<void> {
-    const player = this.scene instanceof TheatreScene ? this.scene.map.player : new Player(0, 'GoodGuy', 'gdi');
+  public async pushMapSelectionScene(campaign?: GameCampaign): Promise<void> {
+    const player = campaign
+      ? new Player(0, campaign.getPlayerName(), campaign.team)
+      : this.scene instanceof TheatreScene ? this.scene.map.player : new Player(0, 'GoodGuy', 'gdi');
 
     this.clearScenes();
-    this.pushScene(() => new MapSelectionScene(player, this));
+    this.pushScene(() => new MapSelectionScene(player, this, campaign));
     return this.nextScene();
   }
 
+  /**
+   * Continues the campaign stored in the browser
+   */
+  public async continueCampaign(): Promise<boolean> {
+    const data = await this.saves.loadCampaign();
+    const campaign = data ? new GameCampaign(data.team, data) : undefined;
+
+    if (!campaign || campaign.isFinished()) {
+      return false;
+    }
+
+    await this.pushMapSelectionScene(campaign);
+    return true;
+  }
+
   public setScrollSpeed(speed: number): void {
     this.gameConfig.scrollSpeed = speed;
   }
@@ -187,24 +259,45 @@ export class GameEngine extends Engine {
   }
 
   public onTeamSelected(selected: MIXTeamName): void {
-    const player = selected === 'nod' ? 'BadGuy' : 'GoodGuy';
-    const maps = selected === 'nod' ? nodMaps : gdiMaps;
-    this.pushTheatreScene(maps[0], player);
+    const campaign = new GameCampaign(selected);
+    this.saves.saveCampaign(campaign.toJson());
+    this.pushTheatreScene(campaign.getNextMaps()[0], campaign.getPlayerName(), false, campaign);
   }
 
   public onTheatreWon(): void {
-    const map = (this.scene as TheatreScene).map;
+    if ((this.scene as TheatreScene).isReplay()) {
+      this.pushMenuScene();
+      return;
+    }
+
+    const { map, name, campaign } = this.scene as TheatreScene;
     const movieName = map.data.basic.Win;
     const player = map.player;
 
+    if (campaign) {
+      campaign.complete(name, player.getCredits());
+      this.saves.saveCampaign(campaign.toJson());
+    }
+
+    const score = map.statistics.getScore();
+
     this.clearScenes()
     this.pushScene(() => new MovieScene(movieName, this));
-    this.pushScene(() => new ScoreScene(this));
-    this.pushScene(() => new MapSelectionScene(player, this));
+    this.pushScene(() => new ScoreScene(this, score));
+    if (campaign && campaign.isFinished()) {
+      this.pushScene(() => new MenuScene(this));
+    } else {
+      this.pushScene(() => new MapSelectionScene(player, this, campaign));
+    }
     this.nextScene();
   }
 
   public onTheatreLost(): void {
+    if ((this.scene as TheatreScene).isReplay()) {
+      this.pushMenuScene();
+      return;
+    }
+
     const map = (this.scene as TheatreScene).map;
     const movieName = map.data.basic.Lose;
 
@@ -214,8 +307,8 @@ export class GameEngine extends Engine {
     this.nextScene();
   }
 
-  public onMapSelect(name: string, player: Player): void {
-    this.pushTheatreScene(name, player.getName());
+  public onMapSelect(name: string, player: Player, campaign?: GameCampaign): void {
+    this.pushTheatreScene(name, player.getName(), false, campaign);
   }
 
   public onTheatreAborted(): void {
@@ -0,0 +1,134 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMap } from './map';
+import { TiberiumEntity } from './entities/tiberium';
+import { TerrainEntity } from './entities/terrain';
+import { CELL_SIZE } from './physics';
+import { Vector } from 'vector2d';
+
+/**
+ * Chance that a fully grown patch spreads into a neighbouring cell
+ */
+export const TIBERIUM_SPREAD_CHANCE = 0.25;
+
+/**
+ * Chance that a blossom tree seeds a new patch
+ */
+export const TIBERIUM_SEED_CHANCE = 0.5;
+
+const cellKey = (cell: Vector): string => `${cell.x},${cell.y}`;
+
+/**
+ * Gets the cells surrounding an area
+ */
+const getSurroundingCells = (cell: Vector, size: Vector): Vector[] => {
+  const result: Vector[] = [];
+  for (let y = cell.y - 1; y <= cell.y + size.y; y++) {
+    for (let x = cell.x - 1; x <= cell.x + size.x; x++) {
+      if (x < cell.x || y < cell.y || x >= cell.x + size.x || y >= cell.y + size.y) {
+        result.push(new Vector(x, y));
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Tiberium growth and spreading according to the GrowthRate rule
+ */
+export class GameMapTiberiumGrowth {
+  private readonly map: GameMap;
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  public process(): void {
+    const ticks = this.map.getTicks();
+    const interval = this.getInterval();
+
+    if (interval > 0 && ticks > 0 && (ticks % interval) === 0) {
+      this.grow();
+    }
+  }
+
+  /**
+   * Grows all patches by one bail, lets fully grown patches spread and
+   * blossom trees seed new fields
+   */
+  public grow(): void {
+    const entities = this.map.getEntities().filter(e => !e.isDestroyed());
+    const patches = entities.filter(e => e.isTiberium()) as TiberiumEntity[];
+    const trees = entities.filter(e => e instanceof TerrainEntity && e.isTiberiumTree());
+    const cells: Map<string, TiberiumEntity> = new Map();
+    patches.forEach(p => cells.set(cellKey(p.getCell()), p));
+
+    const spread = (candidates: Vector[]) => {
+      const cell = this.map.random.pick(candidates.filter(c => this.isClearCell(c, cells)));
+      if (cell) {
+        this.seed(cell, cells);
+      }
+    };
+
+    for (const patch of patches) {
+      if (patch.isFullyGrown()) {
+        if (this.map.random.next() < TIBERIUM_SPREAD_CHANCE) {
+          spread(getSurroundingCells(patch.getCell(), new Vector(1, 1)));
+        }
+      } else if (patch.hasTiberium()) {
+        patch.growTiberium();
+      }
+    }
+
+    for (const tree of trees) {
+      if (this.map.random.next() < TIBERIUM_SEED_CHANCE) {
+        const d = tree.getDimension();
+        const size = new Vector(Math.max(1, Math.floor(d.x / CELL_SIZE)), Math.max(1, Math.floor(d.y / CELL_SIZE)));
+        spread(getSurroundingCells(tree.getCell(), size));
+      }
+    }
+  }
+
+  /**
+   * Starts a new patch, or revives a harvested one
+   */
+  private seed(cell: Vector, cells: Map<string, TiberiumEntity>): void {
+    const existing = cells.get(cellKey(cell));
+    if (existing) {
+      existing.growTiberium();
+      return;
+    }
+
+    const name = `TI${this.map.random.between(1, 12)}`;
+    this.map.factory.load('tiberium', { name, cell }, (entity: TiberiumEntity) => {
+      entity.setTiberium(1);
+      cells.set(cellKey(cell), entity);
+    });
+  }
+
+  private isClearCell(cell: Vector, cells: Map<string, TiberiumEntity>): boolean {
+    const dimension = this.map.getMapDimension();
+    if (cell.x < 0 || cell.y < 0 || cell.x >= dimension.x || cell.y >= dimension.y) {
+      return false;
+    }
+
+    const patch = cells.get(cellKey(cell));
+    if (patch) {
+      return !patch.hasTiberium();
+    }
+
+    return this.map.grid.isWalkableAt(cell.x, cell.y);
+  }
+
+  /**
+   * Number of ticks between each growth
+   */
+  public getInterval(): number {
+    const { GrowthRate } = this.map.engine.mix.getGeneralRules();
+    return Math.round(GrowthRate * this.map.getTicksPerMinute());
+  }
+}
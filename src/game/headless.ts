@@ -0,0 +1,165 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { CoreConfiguration, DataArchive, MousePosition, Sprite, SoundEffect } from '../engine';
+import { MIX, MIXMapData, MIXPlayerName, MIXSaveGame } from './mix';
+import { GameMapEngine } from './game';
+import { GameMapCommand } from './commands';
+import { GameMap } from './map';
+import { GameMapLockstep, LockstepTransport } from './lockstep';
+import { Vector } from 'vector2d';
+
+export type GameHeadlessResult = 'won' | 'lost' | undefined;
+
+/**
+ * Engine without rendering, sound or input
+ */
+export class GameHeadlessEngine implements GameMapEngine {
+  public readonly mix: MIX;
+  public readonly configuration: CoreConfiguration = {
+    debugMode: false,
+    minScale: 1.0,
+    maxScale: 1.0,
+    scale: 1.0,
+    updateRate: 1000 / 30,
+    cursorLock: false,
+    sound: {
+      muted: true,
+      mainVolume: 0,
+      sfxVolume: 0,
+      musicVolume: 0,
+      guiVolume: 0
+    }
+  };
+  public readonly mouse = {
+    getPosition: (): MousePosition => ({ x: 0, y: 0, z: 0 }),
+    getVector: (): Vector => new Vector(0, 0)
+  };
+  public frames: number = 0;
+  public ticks: number = 0;
+  public result: GameHeadlessResult;
+
+  public constructor(mix: MIX) {
+    this.mix = mix;
+  }
+
+  public getScale(): number {
+    return this.configuration.scale;
+  }
+
+  public getDebug(): boolean {
+    return false;
+  }
+
+  public async loadArchiveSprite(sprite: Sprite): Promise<void> {
+  }
+
+  public async playArchiveSfx(source: string, node: string, sound: Partial<SoundEffect> = {}, queue?: string): Promise<void> {
+  }
+
+  public onTheatreWon(): void {
+    this.result = this.result || 'won';
+  }
+
+  public onTheatreLost(): void {
+    this.result = this.result || 'lost';
+  }
+}
+
+/**
+ * Runs a map at a fixed rate without a canvas. Identical inputs gives identical results.
+ */
+export class GameHeadlessSimulation {
+  public readonly engine: GameHeadlessEngine;
+  public readonly map: GameMap;
+  public lockstep?: GameMapLockstep;
+
+  public constructor(name: string, data: MIXMapData, player: MIXPlayerName, mix: MIX, seed: number = 0) {
+    this.engine = new GameHeadlessEngine(mix);
+    this.map = new GameMap(name, data, player, this.engine, seed);
+  }
+
+  public toString(): string {
+    return `Headless ${this.engine.ticks}t ${this.engine.result || 'running'}\n${this.map.toString()}`;
+  }
+
+  /**
+   * Creates a simulation from a data archive (ex. data.zip read from disk)
+   */
+  public static async createFromArchive(data: ArrayBuffer | Uint8Array, name: string, player: MIXPlayerName, seed: number = 0): Promise<GameHeadlessSimulation> {
+    const archive = new DataArchive('data.zip');
+    await archive.load(data);
+
+    const mix = new MIX(archive);
+    await mix.parse();
+
+    const mapData = await mix.loadMap(name);
+    return new GameHeadlessSimulation(name, mapData, player, mix, seed);
+  }
+
+  /**
+   * Plays against other clients. Must be called before init.
+   */
+  public setMultiplayer(transport: LockstepTransport, players: MIXPlayerName[]): void {
+    const list = players.map(name => this.map.getPlayerByName(name)!);
+    this.lockstep = new GameMapLockstep(this.map, transport, list);
+  }
+
+  public async init(save?: MIXSaveGame): Promise<void> {
+    await this.map.init(save);
+
+    if (this.lockstep) {
+      this.lockstep.init();
+    }
+  }
+
+  /**
+   * Issues an order for the session player
+   */
+  public dispatch(command: GameMapCommand): void {
+    if (this.lockstep) {
+      this.lockstep.dispatch(command);
+    } else {
+      this.map.commands.dispatch(command);
+    }
+  }
+
+  /**
+   * Advances the simulation a number of ticks.
+   * Returns false if waiting for orders from other clients.
+   */
+  public tick(count: number = 1): boolean {
+    const deltaTime = 1000 / this.engine.configuration.updateRate;
+
+    for (let i = 0; i < count; i++) {
+      if (this.lockstep && !this.lockstep.canAdvance()) {
+        return false;
+      }
+
+      this.map.onUpdate(deltaTime);
+      this.engine.ticks++;
+    }
+
+    return true;
+  }
+
+  /**
+   * Runs until the mission is won or lost, the tick limit is reached
+   * or is waiting for other clients.
+   */
+  public run(maxTicks: number): GameHeadlessResult {
+    while (!this.engine.result && this.engine.ticks < maxTicks) {
+      if (!this.tick()) {
+        break;
+      }
+    }
+
+    return this.engine.result;
+  }
+
+  public getResult(): GameHeadlessResult {
+    return this.engine.result;
+  }
+}
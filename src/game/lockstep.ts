@@ -0,0 +1,296 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import EventEmitter from 'eventemitter3';
+import { GameMapCommand } from './commands';
+import { GameMapChecksumRecord, GameMapDesync, GameMapSnapshot } from './checksum';
+import { GameMap } from './map';
+import { Player } from './player';
+
+/**
+ * How often (in ticks) orders are exchanged
+ */
+export const LOCKSTEP_TURN = 5;
+
+/**
+ * How many ticks into the future orders are scheduled
+ */
+export const LOCKSTEP_DELAY = LOCKSTEP_TURN * 2;
+
+export interface LockstepOrders {
+  type: 'orders';
+  player: number;
+  tick: number;
+  commands: GameMapCommand[];
+  checksums?: GameMapChecksumRecord[];
+}
+
+export interface LockstepSnapshot {
+  type: 'snapshot';
+  player: number;
+  tick: number;
+  checksum: number;
+  snapshot: GameMapSnapshot;
+}
+
+export type LockstepMessage = LockstepOrders | LockstepSnapshot;
+
+/**
+ * Lockstep Transport
+ *
+ * Delivers messages to all other clients. Emits 'message' on incoming messages.
+ */
+export abstract class LockstepTransport extends EventEmitter {
+  public abstract send(message: LockstepMessage): void;
+
+  public abstract close(): void;
+
+  protected receive(message: LockstepMessage): void {
+    this.emit('message', message);
+  }
+}
+
+/**
+ * In-process transport
+ */
+export class LoopbackTransport extends LockstepTransport {
+  private readonly hub: LoopbackHub;
+
+  public constructor(hub: LoopbackHub) {
+    super();
+    this.hub = hub;
+  }
+
+  public send(message: LockstepMessage): void {
+    this.hub.broadcast(this, message);
+  }
+
+  public close(): void {
+    this.hub.remove(this);
+  }
+
+  public deliver(message: LockstepMessage): void {
+    this.receive(message);
+  }
+}
+
+/**
+ * Connects transports in the same process
+ */
+export class LoopbackHub {
+  private readonly transports: Set<LoopbackTransport> = new Set();
+
+  public createTransport(): LoopbackTransport {
+    const transport = new LoopbackTransport(this);
+    this.transports.add(transport);
+    return transport;
+  }
+
+  public broadcast(from: LoopbackTransport, message: LockstepMessage): void {
+    const str = JSON.stringify(message);
+
+    for (let transport of this.transports) {
+      if (transport !== from) {
+        transport.deliver(JSON.parse(str));
+      }
+    }
+  }
+
+  public remove(transport: LoopbackTransport): void {
+    this.transports.delete(transport);
+  }
+}
+
+/**
+ * Transport using a WebSocket relay (see scripts/relay.js).
+ * A WebSocket implementation can be passed in when running outside the browser.
+ */
+export class WebSocketTransport extends LockstepTransport {
+  private readonly socket: WebSocket;
+  private queue: string[] = [];
+
+  public constructor(url: string, WebSocketImpl: typeof WebSocket = WebSocket) {
+    super();
+
+    this.socket = new WebSocketImpl(url);
+    this.socket.onopen = () => this.onOpen();
+    this.socket.onmessage = (ev: MessageEvent) => this.receive(JSON.parse(ev.data));
+    this.socket.onerror = (ev: Event) => console.error('WebSocketTransport', ev);
+    this.socket.onclose = () => this.emit('close');
+  }
+
+  public send(message: LockstepMessage): void {
+    const str = JSON.stringify(message);
+
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(str);
+    } else {
+      this.queue.push(str);
+    }
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+
+  protected onOpen(): void {
+    console.debug('WebSocketTransport::onOpen()', this.socket.url);
+
+    this.queue.forEach(str => this.socket.send(str));
+    this.queue = [];
+    this.emit('open');
+  }
+}
+
+/**
+ * Lockstep Session
+ *
+ * Orders given by the session player are sent to the other clients and
+ * scheduled for a future tick. The map is only allowed to advance once
+ * orders from all players has arrived for that tick.
+ */
+export class GameMapLockstep {
+  private readonly map: GameMap;
+  private readonly transport: LockstepTransport;
+  private readonly players: Player[];
+  private readonly received: Map<number, Map<number, GameMapCommand[]>> = new Map();
+  private pending: GameMapCommand[] = [];
+  private checksums: GameMapChecksumRecord[] = [];
+  private lastSentTick: number = -1;
+  private desynced: boolean = false;
+
+  /**
+   * Needs to be created before the map is initialized so that
+   * remote players does not get a computer opponent.
+   */
+  public constructor(map: GameMap, transport: LockstepTransport, players: Player[]) {
+    this.map = map;
+    this.transport = transport;
+    this.players = players;
+
+    this.players
+      .filter(p => p !== map.player)
+      .forEach(p => p.setRemotePlayer(true));
+
+    this.transport.on('message', (message: LockstepMessage) => this.onMessage(message));
+    this.map.checksums.setSnapshots(true);
+    this.map.checksums.on('checksum', (tick: number, value: number) => this.checksums.push([tick, value]));
+    this.map.checksums.on('desync', (desync: GameMapDesync) => this.onDesync(desync));
+  }
+
+  public toString(): string {
+    const waiting = this.getWaitingPlayers().map(p => p.getName()).join(',');
+    return `Lockstep ${this.players.length}p ${waiting ? 'waiting for ' + waiting : 'ok'}`;
+  }
+
+  /**
+   * Creates construction queues for remote players
+   */
+  public init(): void {
+    this.players
+      .filter(p => p.isRemotePlayer())
+      .forEach(p => this.map.createConstructionQueues(p));
+  }
+
+  public dispatch(command: GameMapCommand): void {
+    this.pending.push(command);
+  }
+
+  public destroy(): void {
+    this.transport.close();
+  }
+
+  /**
+   * Exchanges orders and checks if the map can advance one tick
+   */
+  public canAdvance(): boolean {
+    const tick = this.map.getTicks();
+
+    if (tick % LOCKSTEP_TURN !== 0) {
+      return true;
+    }
+
+    if (this.lastSentTick < tick) {
+      this.lastSentTick = tick;
+      this.sendOrders(tick + LOCKSTEP_DELAY);
+    }
+
+    if (tick < LOCKSTEP_DELAY) {
+      return true;
+    }
+
+    if (this.getWaitingPlayers().length > 0) {
+      return false;
+    }
+
+    const orders = this.received.get(tick)!;
+    this.received.delete(tick);
+
+    for (let [player, commands] of orders.entries()) {
+      commands.forEach(command => this.map.commands.dispatch({ ...command, player, tick }));
+    }
+
+    return true;
+  }
+
+  public getWaitingPlayers(): Player[] {
+    const tick = this.map.getTicks();
+    if (tick < LOCKSTEP_DELAY || tick % LOCKSTEP_TURN !== 0) {
+      return [];
+    }
+
+    const orders = this.received.get(tick);
+    return this.players.filter(p => !orders || !orders.has(p.getId()));
+  }
+
+  protected sendOrders(tick: number): void {
+    const player = this.map.player.getId();
+    const commands = this.pending.map(command => ({ ...command, player, tick }));
+    const checksums = this.checksums;
+    this.pending = [];
+    this.checksums = [];
+
+    const message: LockstepOrders = { type: 'orders', player, tick, commands, checksums };
+    this.onMessage(message);
+    this.transport.send(message);
+  }
+
+  /**
+   * Sends our snapshot on the first mismatch so that the other end can report the difference
+   */
+  protected onDesync(desync: GameMapDesync): void {
+    if (!desync.diff && !this.desynced) {
+      this.desynced = true;
+
+      const player = this.map.player.getId();
+      const snapshot = this.map.checksums.getSnapshot(desync.tick);
+      if (snapshot) {
+        this.transport.send({ type: 'snapshot', player, tick: desync.tick, checksum: desync.local, snapshot });
+      }
+    }
+  }
+
+  protected onMessage(message: LockstepMessage): void {
+    if (message.type === 'snapshot') {
+      console.warn('GameMapLockstep::onMessage()', 'Received snapshot from player', message.player, 'at tick', message.tick);
+      this.map.checksums.verify(message.tick, message.checksum, message.snapshot);
+    } else if (message.type === 'orders') {
+      if (message.player !== this.map.player.getId()) {
+        (message.checksums || []).forEach(([tick, value]) => this.map.checksums.verify(tick, value));
+      }
+
+      if (message.tick < this.map.getTicks()) {
+        console.warn('GameMapLockstep::onMessage()', 'Orders arrived too late', message);
+        return;
+      }
+
+      if (!this.received.has(message.tick)) {
+        this.received.set(message.tick, new Map());
+      }
+
+      this.received.get(message.tick)!.set(message.player, message.commands);
+    }
+  }
+}
@@ -3,8 +3,8 @@
  * @author Anders Evenrud <andersevenrud@gmail.com>
  * @license MIT
  */
-import { Entity, MousePosition, Box, collidePoint, collideAABB } from '../engine';
-import { Grid, AStarFinder, DiagonalMovement } from 'pathfinding';
+import { Entity, MousePosition, Box, collidePoint, collideAABB, isHeadless, Random, randomSeed } from '../engine';
+import { Grid } from 'pathfinding';
 import { SmudgeEntity } from './entities/smudge';
 import { TerrainEntity } from './entities/terrain';
 import { InfantryEntity } from './entities/infantry';
@@ -13,20 +13,50 @@ import { UnitEntity } from './entities/unit';
 import { StructureEntity } from './entities/structure';
 import { OverlayEntity } from './entities/overlay';
 import { TiberiumEntity } from './entities/tiberium';
+import { AircraftEntity } from './entities/aircraft';
 import { StructureMaskEntity } from './entities/mask';
 import { GameMapEntitySelection } from './entities/selection';
+import { GameMapEntity } from './entities/mapentity';
+import { ProjectileEntity } from './entities/projectile';
 import { GameEntity } from './entity';
-import { MIXMapTrigger, MIXPlayerName, MIXMapData, MIXMapEntityData, MIXSaveGame, wallNames, playerMap } from './mix';
-import { GameEngine } from './game';
+import {
+  MIXMapTriggerEvent,
+  MIXPlayerName,
+  MIXMapData,
+  MIXMapEntityData,
+  MIXMapTileData,
+  MIXSaveGame,
+  MIXSaveGameConstruction,
+  wallNames,
+  playerMap,
+  buildableStructures,
+  buildableInfantry,
+  buildableUnits,
+  usableSpecials
+} from './mix';
+import { GameMapEngine } from './game';
+import { GameMapTrigger } from './triggers';
+import { GameMapTeamManager } from './teams';
+import { GameMapReinforcements } from './reinforcements';
+import { GameMapAI } from './ai';
+import { GameMapCommandQueue } from './commands';
+import { GameMapChecksum } from './checksum';
+import { GameMapStatistics } from './statistics';
+import { GameMapTiberiumGrowth } from './growth';
+import { findPath, GameMapLocomotor, GameMapPathfinder } from './pathfinding';
+import { GameMapOccupancy, OCCUPIED_PATH_COST } from './occupancy';
+import { GameMapFormation } from './formation';
+import { loadSaveGame, SAVE_VERSION } from './save';
+import { ConstructionQueue, ConstructionObject } from './ui/construction';
 import { spriteFromName } from './sprites';
-import { cellFromPoint, CELL_SIZE } from './physics';
+import { cellFromPoint, findClosestPosition, CELL_SIZE } from './physics';
 import { Player } from './player';
-import { FOW } from './fow';
+import { FOW, GameMapVisibility } from './fow';
 import { Vector } from 'vector2d';
 
 type PlayerMap = [MIXPlayerName, Player];
 
-const players: PlayerMap[] = playerMap
+const createPlayers = (): PlayerMap[] => playerMap
   .map((name: string, index: number): any => {
     return [name, new Player(index, name as MIXPlayerName)];
   });
@@ -50,7 +80,8 @@ export class GameMapEntityFactory {
     infantry: InfantryEntity,
     unit: UnitEntity,
     structure: StructureEntity,
-    smudge: SmudgeEntity
+    smudge: SmudgeEntity,
+    aircraft: AircraftEntity
   };
 
   public constructor(map: GameMap) {
@@ -87,7 +118,10 @@ export class GameMapEntityFactory {
     }
   }
 
-  public async load(type: string, data: MIXMapEntityData, cb?: Function): Promise<void> {
+  /**
+   * Creates an entity and adds it to the map. See GameMap::addEntity()
+   */
+  public load(type: string, data: MIXMapEntityData, cb?: Function): Promise<void> {
     const Class: any = GameMapEntityFactory.entityMap[this.getRealType(type, data)];
     if (Class) {
       const entity = new Class(data, this.map);
@@ -99,7 +133,7 @@ export class GameMapEntityFactory {
       console.warn('Invalid', type, data);
     }
 
-    return undefined;
+    return Promise.resolve();
   }
 
   public getRealType(type: string, data: MIXMapEntityData): string {
@@ -111,77 +145,68 @@ export class GameMapEntityFactory {
   }
 }
 
-/**
- * Map Triggers
- */
-export class GameMapTrigger {
-  private trigger: MIXMapTrigger;
-  private map: GameMap;
-  private done: boolean = false;
-
-  public constructor(trigger: MIXMapTrigger, map: GameMap) {
-    this.trigger = trigger;
-    this.map = map;
-  }
-
-  public process(): void {
-    if (this.done) {
-      return;
-    }
-
-    if (this.trigger.condition === 'All Destr.') {
-      const met = this.map.getEntities()
-        .filter(entity => entity.player && entity.player.getName() === this.trigger.playerName)
-        .length === 0;
-
-      if (met) {
-        if (this.trigger.action === 'Win') {
-          this.map.engine.onTheatreWon();
-        } else if (this.trigger.action === 'Lose') {
-          this.map.engine.onTheatreLost();
-        }
-        this.done = true;
-      }
-    }
-  }
-}
-
 declare var window: any;
 
 /**
  * Map
  */
 export class GameMap extends Entity {
-  private readonly players: Map<MIXPlayerName, Player> = new Map(players);
+  private readonly players: Map<MIXPlayerName, Player> = new Map(createPlayers());
   private triggers: GameMapTrigger[] = [];
+  private cellTriggers: Map<string, string> = new Map();
+  private readonly landOverrides: Map<string, string> = new Map();
+  private ai: GameMapAI[] = [];
+  private construction: ConstructionQueue[] = [];
+  private ticks: number = 0;
+  private entityId: number = 0;
+  private cosmeticEntityId: number = 0;
+  private savedConstruction: { [Key: string]: MIXSaveGameConstruction[] } = {};
   protected readonly name: string;
   protected entities: GameEntity[] = [];
   protected visibleEntities: number = 0;
   protected mapDimension: Vector = new Vector(64, 64);
   protected fowVisible: boolean = true;
+  protected viewFow?: FOW;
   protected created: boolean = false;
   protected mask?: StructureMaskEntity;
   protected viewport: Box = { x1: 0, x2: 800, y1: 0, y2: 600 };
   public grid: Grid = new Grid(64, 64);
+  public naval: Grid = new Grid(64, 64);
   public readonly player: Player;
   public readonly data: MIXMapData;
-  public readonly engine: GameEngine;
+  public readonly engine: GameMapEngine;
   public readonly fow: FOW = new FOW(this);
+  public readonly visibility: GameMapVisibility = new GameMapVisibility(this);
   public readonly terrain: Entity = new Entity();
   public readonly objects: Entity = new Entity();
   public readonly overlay: Entity = new Entity();
   public readonly factory: GameMapEntityFactory = new GameMapEntityFactory(this);
+  public readonly teams: GameMapTeamManager = new GameMapTeamManager(this);
+  public readonly reinforcements: GameMapReinforcements = new GameMapReinforcements(this);
   public readonly selection: GameMapEntitySelection = new GameMapEntitySelection(this);
-
-  public constructor(name: string, data: MIXMapData, player: MIXPlayerName, engine: GameEngine) {
+  public readonly commands: GameMapCommandQueue = new GameMapCommandQueue(this);
+  public readonly checksums: GameMapChecksum = new GameMapChecksum(this);
+  public readonly statistics: GameMapStatistics = new GameMapStatistics(this);
+  public readonly growth: GameMapTiberiumGrowth = new GameMapTiberiumGrowth(this);
+  public readonly occupancy: GameMapOccupancy = new GameMapOccupancy(this);
+  public readonly formation: GameMapFormation = new GameMapFormation(this);
+  public readonly pathfinder: GameMapPathfinder = new GameMapPathfinder(this);
+  public readonly random: Random;
+  public readonly cosmeticRandom: Random;
+
+  public constructor(name: string, data: MIXMapData, player: MIXPlayerName, engine: GameMapEngine, seed: number = randomSeed()) {
     super();
     this.name = name;
     this.engine = engine;
     this.data = data;
+    this.random = new Random(seed);
+    this.cosmeticRandom = new Random(seed ^ 0x5f3759df);
     this.player = this.players.get(player) as Player;
     this.player.setSessionPlayer(true);
 
-    window.map = this;
+    if (!isHeadless()) {
+      window.map = this;
+    }
   }
 
   public toString(): string {
@@ -196,14 +221,47 @@ export class GameMap extends Entity {
     return `${this.name} ${size}${pos} ${current}${dimension}\nEntities: ${this.visibleEntities}/${this.entities.length}\nPlayer: ${player}\n${entities}`;
   }
 
-  public toJson(): any {
+  /**
+   * Creates a save game of the complete simulation state
+   */
+  public toJson(): MIXSaveGame {
+    const construction: { [Key: string]: MIXSaveGameConstruction[] } = {};
+    for (let queue of this.construction) {
+      const name = queue.getPlayer().getName();
+      construction[name] = [...(construction[name] || []), ...queue.toJson()];
+    }
+
+    const entities = this.entities
+      .filter(e => !e.isDestroyed() && !e.isCosmetic())
+      .map(e => ({ ...e.toJson(), state: e.getState() }))
+      .filter(e => !!e.type);
+
     return {
+      version: SAVE_VERSION,
       name: this.name,
-      entities: this.entities.filter(e => !e.isDestroyed()).map(e => e.toJson())
+      player: this.player.getName(),
+      seed: this.random.getSeed(),
+      random: this.random.getState(),
+      ticks: this.ticks,
+      entityId: this.entityId,
+      camera: { x: this.position.x, y: this.position.y },
+      players: Array.from(this.players.values()).map(p => p.toJson()),
+      construction,
+      triggers: this.triggers.map(t => t.toJson()),
+      teams: this.teams.toJson(),
+      ai: this.ai.map(ai => ai.toJson()),
+      fow: this.visibility.toJson(),
+      reinforcements: this.reinforcements.toJson(),
+      statistics: this.statistics.toJson(),
+      entities
     };
   }
 
   public async init(save?: MIXSaveGame): Promise<void> {
+    if (save) {
+      save = loadSaveGame(save);
+    }
+
     console.time();
     const data = this.data;
     console.log(data);
@@ -217,7 +275,11 @@ export class GameMap extends Entity {
 
     this.mapDimension = data.map.size.clone() as Vector;
     this.grid = new Grid(this.mapDimension.x, this.mapDimension.y);
+    this.naval = new Grid(this.mapDimension.x, this.mapDimension.y);
     this.triggers = data.triggers.map(trigger => new GameMapTrigger(trigger, this));
+    this.cellTriggers = new Map(data.cellTriggers.map((t): [string, string] => {
+      return [`${t.cell.x},${t.cell.y}`, t.name.toLowerCase()];
+    }));
 
     const d = this.mapDimension.clone().mulS(CELL_SIZE) as Vector;
 
@@ -235,14 +297,58 @@ export class GameMap extends Entity {
     await this.drawBaseMap(data);
 
     if (save) {
-      this.entities = [];
+      this.entityId = save.entityId;
+      this.ticks = save.ticks;
+      this.random.setState(save.random);
+      this.savedConstruction = save.construction;
+
+      for (let p of save.players) {
+        const player = this.players.get(p.name);
+        if (player) {
+          player.restore(p);
+        }
+      }
 
-      await Promise.all(save.entities.map(e => {
-        return this.factory.load(e.type, {
+      const loading = save.entities
+        .filter(e => e.type !== 'projectile')
+        .map(e => this.factory.load(e.type, {
           ...e,
           cell: new Vector(e.cell.x, e.cell.y)
-        });
-      }));
+        }));
+
+      // NOTE: Projectiles refers to the entities that fired them, so they come last
+      save.entities
+        .filter(e => e.type === 'projectile')
+        .forEach(e => loading.push(this.addEntity(ProjectileEntity.restore(e, this))));
+
+      const order: Map<number, number> = new Map(save.entities.map((e, i): [number, number] => [e.id, i]));
+      this.entities.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+      for (let e of save.entities) {
+        const entity = this.getEntityById(e.id);
+        if (entity && e.state) {
+          entity.restoreState(e.state);
+        }
+      }
+
+      await Promise.all(loading);
+
+      save.triggers.forEach((t, index) => {
+        const trigger = this.triggers[index];
+        if (trigger && trigger.getName() === t.name) {
+          trigger.restore(t);
+        } else {
+          console.warn('GameMap::init()', 'Trigger mismatch in save', t.name);
+        }
+      });
+
+      this.teams.restore(save.teams);
+      this.visibility.restore(save.fow);
+      this.reinforcements.restore(save.reinforcements);
+
+      if (save.statistics) {
+        this.statistics.restore(save.statistics);
+      }
     } else {
       const [overlays, tiberium] = data.overlays.reduce((a: MIXMapEntityData[][], o) => {
         const i = o.name.substr(0, 2) === 'TI' ? 1 : 0;
@@ -278,6 +384,24 @@ export class GameMap extends Entity {
       );
     }
 
+    this.ai = Array.from(this.players.values())
+      .filter(p => !p.isHumanPlayer() && !!data.players[p.getName()])
+      .filter(p => ['Neutral', 'Special'].indexOf(p.getName()) === -1)
+      .map(p => new GameMapAI(p, this));
+
+    if (save) {
+      if (save.camera) {
+        this.position = new Vector(save.camera.x, save.camera.y);
+      }
+
+      save.ai.forEach(data => {
+        const ai = this.ai.find(ai => ai.player.getName() === data.player);
+        if (ai) {
+          ai.restore(data);
+        }
+      });
+    }
+
     this.created = true;
     console.timeEnd();
   }
@@ -305,31 +429,116 @@ export class GameMap extends Entity {
         if (!tile.passable) {
           this.grid.setWalkableAt(x, y, false);
         }
+
+        this.naval.setWalkableAt(x, y, tile.land === 'Water');
       }
     }
+
+    this.pathfinder.invalidate();
   }
 
-  public createPath(source: Vector, destination: Vector, force: boolean = false): Vector[] {
-    console.debug('GameMap::createPath()', source, destination);
+  /**
+   * Searches for a path right away. Entities go through the pathfinder instead.
+   */
+  public createPath(source: Vector, destination: Vector, force: boolean = false, locomotor: GameMapLocomotor = 'Track', entity?: GameMapEntity): Vector[] {
+    console.debug('GameMap::createPath()', source, destination, locomotor);
+
+    const clamp = (v: Vector) => new Vector(
+      Math.min(this.mapDimension.x - 1, Math.max(0, v.x)),
+      Math.min(this.mapDimension.y - 1, Math.max(0, v.y))
+    );
 
-    const finder = new AStarFinder({
-      diagonalMovement: DiagonalMovement.Always
+    const src = clamp(source);
+    const dst = clamp(destination);
+
+    return findPath(src, dst, this.mapDimension, (x: number, y: number): number => {
+      const cell = new Vector(x, y);
+
+      if (force && dst.equals(cell)) {
+        const speed = this.getLandSpeed(cell, locomotor);
+        return speed > 0 ? 1 / speed : 1;
+      }
+
+      const cost = this.getMovementCost(cell, locomotor);
+      return entity && cost !== Infinity && this.occupancy.isBlocked(cell, entity)
+        ? cost + OCCUPIED_PATH_COST
+        : cost;
     });
+  }
 
-    const sx = Math.max(0, source.x);
-    const sy = Math.max(0, source.y);
-    const dx = Math.min(this.mapDimension.x - 1, Math.max(0, destination.x));
-    const dy = Math.min(this.mapDimension.y - 1, Math.max(0, destination.y));
-    const g = this.grid.clone();
+  /**
+   * Gets the cost of moving into a cell. Infinity means impassable.
+   */
+  public getMovementCost(cell: Vector, locomotor: GameMapLocomotor): number {
+    const { x, y } = cell;
+    const speed = this.getLandSpeed(cell, locomotor);
 
-    if (force) {
-      g.setWalkableAt(destination.x, destination.y, true);
+    if (locomotor === 'Float') {
+      return speed > 0 && this.naval.isWalkableAt(x, y) ? 1 / speed : Infinity;
     }
 
-    const path = finder.findPath(sx, sy, dx, dy, g);
-    path.shift(); // FIXME
+    // NOTE: Cliffs, shores etc. are impassable in the tileset whatever their land type is.
+    // Hovercraft are the only ones besides boats that can go on water.
+    const tile = this.getTileAt(cell);
+    if (tile && !tile.passable && !(locomotor === 'Hover' && this.naval.isWalkableAt(x, y))) {
+      return Infinity;
+    }
+
+    // NOTE: Impassable tiles are blocked in the grid as well, so only objects are checked there
+    const occupied = !this.grid.isWalkableAt(x, y) && !!tile && tile.passable;
 
-    return path.map(([x, y]) => new Vector(x, y));
+    return speed > 0 && !occupied ? 1 / speed : Infinity;
+  }
+
+  public getTileAt(cell: Vector): MIXMapTileData | undefined {
+    const { offset } = this.data.map;
+    const row = this.data.tiles[cell.y + offset.y];
+    return row ? row[cell.x + offset.x] : undefined;
+  }
+
+  /**
+   * Gets the land type (section in land.ini) of a cell
+   */
+  public getLandAt(cell: Vector): string {
+    const land = this.landOverrides.get(`${cell.x},${cell.y}`);
+    if (land) {
+      return land;
+    }
+
+    const tile = this.getTileAt(cell);
+    return tile ? tile.land : 'Rock';
+  }
+
+  /**
+   * Overrides the land type of a cell, ie. when covered in tiberium
+   */
+  public setLandOverride(cell: Vector, land?: string): void {
+    const key = `${cell.x},${cell.y}`;
+    if (this.landOverrides.get(key) === land) {
+      return;
+    }
+
+    if (land) {
+      this.landOverrides.set(key, land);
+    } else {
+      this.landOverrides.delete(key);
+    }
+
+    this.pathfinder.invalidate();
+  }
+
+  /**
+   * Gets the speed multiplier of a locomotor on a cell
+   */
+  public getLandSpeed(cell: Vector, locomotor: GameMapLocomotor): number {
+    const land = this.engine.mix.land.get(this.getLandAt(cell));
+    if (!land) {
+      return 0;
+    }
+
+    return locomotor === 'Hover'
+      ? Math.max(land.Wheel, land.Float)
+      : land[locomotor];
   }
 
   public onResize(viewport: Box): void {
@@ -341,26 +550,71 @@ export class GameMap extends Entity {
       this.mask.onUpdate(deltaTime);
     }
 
-    // FIXME: All players
-    const power: [number, number] = [0, 0];
+    this.pathfinder.process();
+    this.commands.process();
+    this.construction.forEach(queue => queue.onUpdate(deltaTime));
+
+    const power: Map<Player, [number, number]> = new Map();
+    for (let p of this.players.values()) {
+      power.set(p, [0, 0]);
+    }
+
+    this.occupancy.process();
+
+    // NOTE: Entities can be removed while updating, which would skip the next one
+    [...this.entities].forEach(e => {
+      if (e.isDestroyed()) {
+        return;
+      }
 
-    this.entities.forEach(e => {
-      if (e.isPlayer()) {
-        power[0] += e.getPowerProduction();
-        power[1] += e.getPowerDrain();
+      if (e.player) {
+        const p = power.get(e.player)!;
+        p[0] += e.getPowerProduction();
+        p[1] += e.getPowerDrain();
       }
 
       e.onUpdate(deltaTime);
     });
 
-    this.player.setPower(power);
-    this.fow.onUpdate(deltaTime);
+    power.forEach((value, p) => p.setPower(value));
+    this.visibility.process();
 
-    if ((this.engine.ticks % 10) === 0) {
+    if ((this.ticks % 10) === 0) {
       this.triggers.forEach(trigger => trigger.process());
+      this.teams.process();
+      this.reinforcements.process();
+      this.ai.forEach(ai => ai.process());
+    }
+
+    this.growth.process();
+    this.ticks++;
+    this.checksums.process();
+  }
+
+  public onEntityEvent(event: MIXMapTriggerEvent, entity: GameEntity, source?: GameEntity): void {
+    const name = entity.getTriggerName();
+    if (name) {
+      this.triggers
+        .filter(trigger => trigger.getName() === name)
+        .forEach(trigger => trigger.notify(event, entity, source));
     }
   }
 
+  public onCellEntered(cell: Vector, entity: GameEntity): void {
+    const name = this.cellTriggers.get(`${cell.x},${cell.y}`);
+    if (name) {
+      this.triggers
+        .filter(trigger => trigger.getName() === name)
+        .forEach(trigger => trigger.notify('Player Enters', undefined, entity));
+    }
+  }
+
+  public destroyTrigger(name: string): void {
+    this.triggers
+      .filter(trigger => trigger.getName() === name)
+      .forEach(trigger => trigger.destroy());
+  }
+
   public onRender(deltaTime: number, context: CanvasRenderingContext2D): void {
     const visible = this.getVisibleEntities();
     const overlay = this.overlay.getContext();
@@ -395,8 +649,9 @@ export class GameMap extends Entity {
     context.drawImage(this.overlay.getCanvas(), sx, sy, sw, sh, dx, dy, dw, dh);
 
     if (this.fowVisible) {
-      this.fow.onRender(deltaTime);
-      context.drawImage(this.fow.getCanvas(), sx, sy, sw, sh, dx, dy, dw, dh);
+      const fow = this.getViewFow();
+      fow.onRender(deltaTime);
+      context.drawImage(fow.getCanvas(), sx, sy, sw, sh, dx, dy, dw, dh);
     }
 
     if (this.engine.getDebug()) {
@@ -469,20 +724,32 @@ export class GameMap extends Entity {
     return num !== (reachedY + reachedX);
   }
 
-  public async addEntity(entity: GameEntity): Promise<void> {
+  /**
+   * Adds an entity to the simulation right away. The returned promise resolves
+   * when its sprites has been loaded.
+   */
+  public addEntity(entity: GameEntity): Promise<void> {
     try {
       const cell = entity.getCell();
       if (cell.x < 0 || cell.y < 0 || cell.x > this.mapDimension.x || cell.y > this.mapDimension.y) {
         console.debug('GameMapEntity::addEntity()', 'Not adding entity outside borders', cell.toArray(), entity);
-        return;
+        return Promise.resolve();
       }
 
-      await entity.init();
+      entity.init();
       this.entities.push(entity);
 
+      if (this.created && entity.player) {
+        if (entity.isStructure()) {
+          entity.player.addBuilt(entity.getName());
+        }
+
+        this.statistics.onEntityBuilt(entity);
+      }
+
       if (entity.player) {
         const es = this.getEntities()
-          .filter(e => e.isPlayer());
+          .filter(e => e.player === entity.player);
 
         entity.player.update(es);
       }
@@ -498,7 +765,11 @@ export class GameMap extends Entity {
       }
     } catch (e) {
       console.error(e);
+      return Promise.resolve();
     }
+
+    return entity.load()
+      .catch(e => console.error('GameMap::addEntity()', 'Failed to load', entity.getName(), e));
   }
 
   public removeEntity(entity: GameEntity): void {
@@ -516,14 +787,13 @@ export class GameMap extends Entity {
     }
 
     if (entity.player) {
-      const es = this.getEntities().filter(e => e.isPlayer());
+      const es = this.getEntities().filter(e => e.player === entity.player);
       entity.player.update(es);
     }
   }
 
   public moveSelectedEntities(to: Vector): void {
-    const selected = this.getSelectedEntities();
-    selected.forEach((e, i) => e.move(to, i === 0));
+    this.formation.move(this.getSelectedEntities(), to, true);
   }
 
   public unselectEntities(): void {
@@ -534,6 +804,28 @@ export class GameMap extends Entity {
     this.fowVisible = !this.fowVisible;
   }
 
+  /**
+   * Shows the map as seen by another player. This does not affect the simulation.
+   */
+  public async setViewPlayer(player: Player): Promise<void> {
+    if (player === this.player) {
+      this.viewFow = undefined;
+    } else {
+      const fow = new FOW(this, player);
+      fow.setDimension(this.fow.getDimension());
+      await fow.init();
+      this.viewFow = fow;
+    }
+  }
+
+  public getViewPlayer(): Player {
+    return this.getViewFow().getPlayer();
+  }
+
+  public getViewFow(): FOW {
+    return this.viewFow || this.fow;
+  }
+
   public setMask(mask?: StructureMaskEntity): void {
     if (mask) {
       mask.init();
@@ -546,6 +838,55 @@ export class GameMap extends Entity {
     return this.entities.find(e => collidePoint(cell, e.getCellBox()));
   }
 
+  /**
+   * Creates the structure and factory construction queues for a player
+   */
+  public createConstructionQueues(player: Player): [ConstructionQueue, ConstructionQueue] {
+    const structures = new ConstructionQueue([...buildableStructures], player, this.engine);
+    const factories = new ConstructionQueue([...buildableInfantry, ...buildableUnits, ...usableSpecials], player, this.engine);
+
+    [structures, factories].forEach(queue => {
+      queue.setBuildLevel(this.data.basic.BuildLevel);
+      queue.updateAvailable();
+      this.addConstructionQueue(queue);
+    });
+
+    const saved = this.savedConstruction[player.getName()];
+    if (saved) {
+      [structures, factories].forEach(queue => queue.restore(saved));
+    }
+
+    factories.on('spawn', (item: ConstructionObject) => {
+      this.factory.spawn(item.type, item.name, player.getId());
+      factories.reset(item);
+    });
+
+    return [structures, factories];
+  }
+
+  /**
+   * Adds a construction queue that is updated by the map and used by build commands
+   */
+  public addConstructionQueue(queue: ConstructionQueue): void {
+    this.construction.push(queue);
+  }
+
+  public getConstructionQueues(player: Player): ConstructionQueue[] {
+    return this.construction.filter(queue => queue.getPlayer() === player);
+  }
+
+  public getEntityById(id: number): GameEntity | undefined {
+    return this.entities.find(e => e.id === id);
+  }
+
+  /**
+   * Cosmetic entities gets their own negative range so they never shift the ids of
+   * entities that are part of the simulation
+   */
+  public createEntityId(cosmetic: boolean = false): number {
+    return cosmetic ? --this.cosmeticEntityId : ++this.entityId;
+  }
+
   public getSelectedEntities(): GameEntity[] {
     return this.entities.filter(e => e.isSelected());
   }
@@ -566,7 +907,7 @@ export class GameMap extends Entity {
         const box = e.getCellBox();
         for (let y = box.y1 - 1; y <= box.y2; y++) {
           for (let x = box.x1 - 1; x <= box.x2; x++) {
-            if (this.fow.isRevealedAt(new Vector(x, y))) {
+            if (this.getViewFow().isRevealedAt(new Vector(x, y))) {
               return true;
             }
           }
@@ -583,10 +924,104 @@ export class GameMap extends Entity {
     return this.entities;
   }
 
+  public getClosestEnemy(entity: GameEntity, test: Function = () => true): GameEntity | undefined {
+    const player = entity.player;
+    if (!player) {
+      return undefined;
+    }
+
+    const cell = entity.getCell();
+    const enemies = this.entities
+      .filter(e => !e.isDestroyed() && !!e.player && player.isEnemy(e.player) && test(e));
+
+    let closest: GameEntity | undefined;
+    let closestDistance = -1;
+    for (let e of enemies) {
+      const distance = cell.distance(e.getCell());
+      if (!closest || distance < closestDistance) {
+        closest = e;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  public getEdgeCells(player: Player): Vector[] {
+    const data = this.data.players[player.getName()];
+    const edge = data ? String(data.Edge).toLowerCase() : 'north';
+    const w = this.mapDimension.x;
+    const h = this.mapDimension.y;
+
+    switch (edge) {
+      case 'south':
+        return Array.from({ length: w }, (_, x) => new Vector(x, h - 1));
+      case 'east':
+        return Array.from({ length: h }, (_, y) => new Vector(w - 1, y));
+      case 'west':
+        return Array.from({ length: h }, (_, y) => new Vector(0, y));
+    }
+
+    return Array.from({ length: w }, (_, x) => new Vector(x, 0));
+  }
+
+  /**
+   * Gets the edge cell of a house closest to a cell. Without a locomotor any cell will do (ex. aircraft).
+   */
+  public getEdgeCell(player: Player, near?: Vector, locomotor?: GameMapLocomotor, exclude: Vector[] = []): Vector {
+    const cells = this.getEdgeCells(player)
+      .filter(c => !exclude.some(e => e.equals(c)))
+      .filter(c => !locomotor || this.getMovementCost(c, locomotor) !== Infinity);
+
+    const target = near || new Vector(Math.floor(this.mapDimension.x / 2), Math.floor(this.mapDimension.y / 2));
+    const index = findClosestPosition(target, cells);
+
+    return index === -1
+      ? this.getEdgeCells(player)[0]
+      : cells[index];
+  }
+
+  public getClosestWalkableCell(cell: Vector, locomotor: GameMapLocomotor, exclude: Vector[] = []): Vector | undefined {
+    const max = Math.max(this.mapDimension.x, this.mapDimension.y);
+
+    for (let r = 0; r < max; r++) {
+      for (let y = cell.y - r; y <= cell.y + r; y++) {
+        for (let x = cell.x - r; x <= cell.x + r; x++) {
+          if (Math.abs(x - cell.x) !== r && Math.abs(y - cell.y) !== r) {
+            continue;
+          }
+
+          if (x < 0 || y < 0 || x >= this.mapDimension.x || y >= this.mapDimension.y) {
+            continue;
+          }
+
+          const v = new Vector(x, y);
+          if (this.getMovementCost(v, locomotor) !== Infinity && !exclude.some(e => e.equals(v))) {
+            return v;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  public getTicks(): number {
+    return this.ticks;
+  }
+
+  public getTicksPerMinute(): number {
+    return this.engine.configuration.updateRate * 60;
+  }
+
   public getMapDimension(): Vector {
     return this.mapDimension.clone() as Vector;
   }
 
+  public getName(): string {
+    return this.name;
+  }
+
   public getData(): MIXMapData | undefined {
     return this.data;
   }
@@ -599,6 +1034,19 @@ export class GameMap extends Entity {
     return this.data.map.theatre;
   }
 
+  public getPlayerByName(name: MIXPlayerName): Player | undefined {
+    return this.players.get(name);
+  }
+
+  /**
+   * Gets all players that is part of this map. This is the same on every
+   * client in a multiplayer session.
+   */
+  public getPlayers(): Player[] {
+    return Array.from(this.players.values())
+      .filter(p => p.isHumanPlayer() || !!this.data.players[p.getName()]);
+  }
+
   public getPlayerById(id: number): Player | undefined {
     for (let p of this.players.values()) {
       if (p.getId() === id) {
@@ -630,6 +1078,10 @@ export class GameMap extends Entity {
     );
   }
 
+  public isWinAllowed(): boolean {
+    return !this.triggers.some(trigger => trigger.isBlockingWin());
+  }
+
   public isFowVisible(): boolean {
     return this.fowVisible;
   }
@@ -13,8 +13,10 @@ export type MIXPlayerName = 'GoodGuy' | 'BadGuy' | 'Neutral' | 'Special' | 'Mult
 export type MIXCursorType = 'default' | 'select' | 'move' | 'attack' | 'expand' | 'unavailable' | 'sell' | 'cannotSell' | 'cannotRepair' | 'repair' | 'cannotRepair' | 'pann' | 'panne' | 'pane' | 'panse' | 'pans' | 'pansw' | 'panw' | 'pannw' | 'invalid' | 'bomb' | 'nuke' | 'ion' | 'enter' | 'c4' | 'cannotPann' | 'cannotPanne' | 'cannotPane' | 'cannotPanse' | 'cannotPans' | 'cannotPansw' | 'cannotPanw' | 'cannotPannw';
 export type MIXGridValue = 'x' | 'X' | '-' | '+' | '*' | '.';
 export type MIXFontGlyphs = number[][];
+export type MIXMapTriggerEvent = 'None' | 'Player Enters' | 'Discovered' | 'Attacked' | 'Destroyed' | 'Any' | 'House Discov.' | 'Units Destr.' | 'Bldgs Destr.' | 'All Destr.' | 'Credits' | 'Time' | '# Bldgs Dstr.' | '# Units Dstr.' | 'No Factories' | 'Civ. Evac.' | 'Built It';
+export type MIXMapTriggerAction = 'None' | 'Win' | 'Lose' | 'Production' | 'Create Team' | 'Dstry Teams' | 'All to Hunt' | 'Reinforce.' | 'DZ at \'Z\'' | 'Airstrike' | 'Nuclear Missile' | 'Ion Cannon' | 'Dstry Trig \'XXXX\'' | 'Dstry Trig \'YYYY\'' | 'Dstry Trig \'ZZZZ\'' | 'Autocreate' | 'Cap=Win/Des=Lose' | 'Allow Win';
 
-enum MIXMapTriggerRepeat {
+export enum MIXMapTriggerRepeat {
   Never = 0,
   Once = 1,
   Always = 2
@@ -29,6 +31,7 @@ export interface MIXMapEntityData {
   action?: string;
   direction?: number;
   trigger?: string;
+  id?: number;
 }
 
 export interface MIXMapBasicData {
@@ -51,14 +54,171 @@ export interface MIXMapMapData {
   offset: Vector;
 }
 
+export interface MIXSaveGameVector {
+  x: number;
+  y: number;
+}
+
+export interface MIXSaveGameEntityState {
+  position: MIXSaveGameVector;
+  direction: number;
+  turretDirection: number;
+  subCell: number;
+  health: number;
+  primary: boolean;
+  repairing: boolean;
+  storageSlots: number[];
+}
+
+export interface MIXSaveGameMapEntityState extends MIXSaveGameEntityState {
+  targetSubCell: number;
+  targetDirection: number;
+  targetPosition?: MIXSaveGameVector;
+  targetEntity?: number;
+  targetAction?: string;
+  currentPath: MIXSaveGameVector[];
+  hunting: boolean;
+  waitTicks: number;
+  pathRequest?: {
+    destination: MIXSaveGameVector;
+    force: boolean;
+    tick: number;
+  };
+  primaryWeapon?: number;
+  secondaryWeapon?: number;
+}
+
+export interface MIXSaveGameUnitState extends MIXSaveGameMapEntityState {
+  harvesting: boolean;
+  refinery?: number;
+  unloadTicks: number;
+}
+
+export interface MIXSaveGameInfantryState extends MIXSaveGameMapEntityState {
+  capturing?: number;
+}
+
+export interface MIXSaveGameTiberiumState extends MIXSaveGameMapEntityState {
+  tiberium: number;
+}
+
+export interface MIXSaveGameAircraftState extends MIXSaveGameMapEntityState {
+  mission?: string;
+  destination?: MIXSaveGameVector;
+  ammo: number;
+  missionTicks: number;
+  leaving: boolean;
+  landed: boolean;
+}
+
+export interface MIXSaveGameProjectileState extends MIXSaveGameEntityState {
+  weapon: string;
+  source: number;
+  target?: number;
+  targetPosition: MIXSaveGameVector;
+  trailTick: number;
+}
+
 export interface MIXSaveGameEntityData extends MIXMapEntityData {
   cell: any;
   type: string;
+  id: number;
+  state?: MIXSaveGameEntityState;
+}
+
+export interface MIXSaveGamePlayer {
+  name: MIXPlayerName;
+  credits: number;
+  power: [number, number];
+  structuresBuilt: string[];
+  specialWeapons: string[];
+  lost: [number, number];
+  evacuated: number;
+  production: boolean;
+  autocreate: boolean;
+}
+
+export interface MIXSaveGameConstruction {
+  name: string;
+  state: string;
+  progress: number;
+}
+
+export interface MIXSaveGameTrigger {
+  name: string;
+  done: boolean;
+  startTick: number;
+  sprung: number[];
+}
+
+export interface MIXSaveGameTeam {
+  name: string;
+  player: MIXPlayerName;
+  members: number[];
+  actionIndex: number;
+  actionStarted: boolean;
+  actionTick: number;
+  target?: number;
+}
+
+export interface MIXSaveGameAI {
+  player: MIXPlayerName;
+  lastTeamTick: number;
+  lastDefenseTick: number;
+}
+
+export interface MIXSaveGameStatistics {
+  player: MIXPlayerName;
+  unitsBuilt: number;
+  structuresBuilt: number;
+  unitsLost: number;
+  structuresLost: number;
+  unitsKilled: number;
+  structuresKilled: number;
+  harvested: number;
+}
+
+export interface MIXSaveGameFOW {
+  player: MIXPlayerName;
+  cells: string[];
+}
+
+export interface MIXSaveGameCargo {
+  transport: number;
+  names: string[];
+  player: MIXPlayerName;
+}
+
+export interface MIXSaveGameReinforcements {
+  cargo: MIXSaveGameCargo[];
+  returning: number[];
+}
+
+export interface MIXSaveGameCampaign {
+  team: MIXTeamName;
+  completed: string[];
+  credits: number;
 }
 
 export interface MIXSaveGame {
+  version: number;
   name: string;
+  player: MIXPlayerName;
+  seed: number;
+  random: number;
+  ticks: number;
+  entityId: number;
+  camera?: { x: number; y: number };
+  players: MIXSaveGamePlayer[];
+  construction: { [Key: string]: MIXSaveGameConstruction[] };
+  triggers: MIXSaveGameTrigger[];
+  teams: MIXSaveGameTeam[];
+  ai: MIXSaveGameAI[];
+  fow: MIXSaveGameFOW[];
+  reinforcements: MIXSaveGameReinforcements;
   entities: MIXSaveGameEntityData[];
+  statistics?: MIXSaveGameStatistics[];
+  campaign?: MIXSaveGameCampaign;
 }
 
 export interface MIXMapEntitySounds {
@@ -70,6 +230,7 @@ export interface MIXMapTileData {
   cell: Vector;
   index: number;
   passable: boolean;
+  land: string;
 }
 
 export interface MIXMapWaypoint {
@@ -84,8 +245,8 @@ export interface MIXMapWaypointMap {
 
 export interface MIXMapTrigger {
   name: string;
-  condition: string;
-  action: string;
+  condition: MIXMapTriggerEvent;
+  action: MIXMapTriggerAction;
   counter: number;
   playerName: MIXPlayerName;
   teamType: string;
@@ -124,6 +285,12 @@ export interface MIXMapBase {
   cell: Vector;
 }
 
+export interface MIXMapBaseData {
+  player?: MIXPlayerName;
+  count: number;
+  structures: MIXMapBase[];
+}
+
 export interface MIXMapPlayer {
   FlagHome: number;
   FlagLocation: number;
@@ -152,7 +319,7 @@ export interface MIXMapData {
   triggers: MIXMapTrigger[];
   cellTriggers: MIXMapCellTrigger[];
   teamTypes: MIXMapTeamType[];
-  base: MIXMapBase[];
+  base: MIXMapBaseData;
   players: MIXMapPlayerMap;
 };
 
@@ -288,10 +455,10 @@ export interface MIXInfantry extends MIXObject {
 }
 
 export interface MIXLand {
-  Foot: string; // percentage
-  Track: string; // percentage
-  Wheel: string; // percentage
-  Float: string; // percentage
+  Foot: number; // percentage
+  Track: number; // percentage
+  Wheel: number; // percentage
+  Float: number; // percentage
   Buildable: boolean;
 }
 
@@ -679,6 +846,77 @@ export const soundMap: MIXMapEntitySounds = {
   'YO1': 1
 };
 
+/**
+ * Structure types by their number in the original game, ex. the 'Built It' trigger counter
+ */
+export const structureTypes: string[] = [
+  'WEAP',
+  'GTWR',
+  'ATWR',
+  'OBLI',
+  'HQ',
+  'GUN',
+  'FACT',
+  'PROC',
+  'SILO',
+  'HPAD',
+  'SAM',
+  'AFLD',
+  'NUKE',
+  'NUK2',
+  'HOSP',
+  'PYLE',
+  'ARCO',
+  'FIX',
+  'BIO',
+  'HAND',
+  'TMPL',
+  'EYE',
+  'MISS',
+  'V01',
+  'V02',
+  'V03',
+  'V04',
+  'V05',
+  'V06',
+  'V07',
+  'V08',
+  'V09',
+  'V10',
+  'V11',
+  'V12',
+  'V13',
+  'V14',
+  'V15',
+  'V16',
+  'V17',
+  'V18',
+  'V19',
+  'V20',
+  'V21',
+  'V22',
+  'V23',
+  'V24',
+  'V25',
+  'V26',
+  'V27',
+  'V28',
+  'V29',
+  'V30',
+  'V31',
+  'V32',
+  'V33',
+  'V34',
+  'V35',
+  'V36',
+  'V37',
+  'SBAG',
+  'CYCL',
+  'BRIK',
+  'BARB',
+  'WOOD'
+];
+
 export const buildableStructures: string[] = [
   'nuke',
   'nuk2',
@@ -897,6 +1135,10 @@ const cellFromIndex = (index: number, tilesX: number, offset: Vector): Vector =>
   Math.trunc(index / tilesX)
 ).subtract(offset);
 
+// Coordinates are packed as 0xYYyyXXxx (cell and lepton for each axis)
+export const cellFromCoordinate = (coordinate: number, offset: Vector): Vector =>
+  cellFromIndex(((coordinate >>> 24) & 0xff) * 64 + ((coordinate >>> 8) & 0xff), 64, offset);
+
 const stringToArray = (str: string): string[] => str === 'None'
   ? []
   : str.split(',');
@@ -956,6 +1198,15 @@ const parseTiles = (mapRaw: any, offset: Vector, mix: MIX): MIXMapTileData[][] =
     return false;
   };
 
+  const getLand = (name: string, j: number): string => {
+    const options =  mix.tilesets.get(name) as MIXTileSet;
+    const stc = options.SecondaryTypeCells;
+
+    return stc && stc.length && stc.map(parseInteger).indexOf(j) !== -1
+      ? options.SecondaryType
+      : options.PrimaryType;
+  };
+
   let i = 0;
   for ( let y = 0; y < 64; y++ ) {
     let row: MIXMapTileData[] = [];
@@ -964,8 +1215,9 @@ const parseTiles = (mapRaw: any, offset: Vector, mix: MIX): MIXMapTileData[][] =
       let index = mapRaw[i + 1];
       let name = mix.tilesetmap.get(v) as string;
       let passable = isPassable(name, index);
+      let land = getLand(name, index);
       let cell = cellFromIndex(index, 64, offset);
-      row.push({ cell, name, passable, index });
+      row.push({ cell, name, passable, land, index });
       i += 2;
     }
 
@@ -1037,8 +1289,8 @@ const mapTriggers = (obj: any, offset: Vector): MIXMapTrigger[] => Object.keys(o
     const [condition, action, counter, playerName, teamType, repeat] = obj[name].split(',');
     return {
       name: name.toLowerCase(),
-      condition,
-      action,
+      condition: condition as MIXMapTriggerEvent,
+      action: action as MIXMapTriggerAction,
       counter: parseInt(counter, 10),
       playerName,
       teamType,
@@ -1052,12 +1304,24 @@ const mapCellTriggers = (obj: any, offset: Vector): MIXMapCellTrigger[] => Objec
     name: obj[cell]
   }))
 
-const mapBase = (obj: any, offset: Vector): MIXMapBase[] => Object.keys(obj)
-  .filter(key => key !== 'Count')
-  .map(key => {
-    const [name, index] = obj[key].split(',');
-    return { name, cell: new Vector(0, 0) }; // FIXME
-  });
+export const mapBase = (obj: any, offset: Vector): MIXMapBaseData => {
+  const keys = Object.keys(obj)
+    .filter(key => key.match(/^\d+$/))
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+
+  const count = typeof obj.Count === 'undefined' ? keys.length : parseInt(obj.Count, 10);
+  const structures = keys.slice(0, count)
+    .map(key => {
+      const [name, coordinate] = obj[key].split(',');
+      return { name: name.toUpperCase(), cell: cellFromCoordinate(parseInt(coordinate, 10), offset) };
+    });
+
+  return {
+    player: obj.Player,
+    count: structures.length,
+    structures
+  };
+};
 
 const mapPlayers = (obj: any): Partial<MIXMapPlayerMap> => playerMap
   .reduce((accumulator, name) => {
@@ -1247,7 +1511,7 @@ export class MIX extends EventEmitter {
       triggers: mapTriggers(ini.Triggers || {}, offset),
       cellTriggers: mapCellTriggers(ini.CellTriggers || {}, offset),
       teamTypes: mapTeamTypes(ini.TeamTypes || {}, offset),
-      base: mapBase(ini.Base, offset),
+      base: mapBase(ini.Base || {}, offset),
       players: mapPlayers(ini) as MIXMapPlayerMap
     });
   }
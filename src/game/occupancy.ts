@@ -0,0 +1,137 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMap } from './map';
+import { GameMapEntity } from './entities/mapentity';
+import { Vector } from 'vector2d';
+
+/**
+ * Number of infantry that fits in one cell
+ */
+export const INFANTRY_PER_CELL = 5;
+
+/**
+ * Extra path cost for cells taken by other units
+ */
+export const OCCUPIED_PATH_COST = 8;
+
+const cellKey = (cell: Vector): string => `${cell.x},${cell.y}`;
+
+/**
+ * Tracks which cells are taken by units and infantry
+ */
+export class GameMapOccupancy {
+  private readonly map: GameMap;
+  private cells: Map<string, GameMapEntity[]> = new Map();
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  /**
+   * Rebuilds from the current cell and next step of every mobile entity.
+   * Called every tick by the map.
+   */
+  public process(): void {
+    this.cells = new Map();
+
+    for (const e of this.getMobileEntities()) {
+      this.add(e.getCell(), e);
+
+      const next = e.getNextCell();
+      if (next) {
+        this.add(next, e);
+      }
+    }
+  }
+
+  /**
+   * Claims a cell for the rest of the tick
+   */
+  public add(cell: Vector, entity: GameMapEntity): void {
+    const key = cellKey(cell);
+    const list = this.cells.get(key) || [];
+    if (list.indexOf(entity) === -1) {
+      this.cells.set(key, [...list, entity]);
+    }
+  }
+
+  /**
+   * Gets everything in a cell except the given entity
+   */
+  public getBlockers(cell: Vector, entity: GameMapEntity): GameMapEntity[] {
+    const list = (this.cells.get(cellKey(cell)) || []).filter(e => e !== entity);
+
+    if (entity.isInfantry()) {
+      const units = list.filter(e => !e.isInfantry());
+      const destination = entity.getDestinationCell();
+      const reserved = entity.getTargetSubCell() !== -1 && !!destination && destination.equals(cell);
+
+      if (units.length > 0 || reserved) {
+        return units;
+      }
+
+      return list.length >= INFANTRY_PER_CELL ? list : [];
+    }
+
+    return list;
+  }
+
+  public isBlocked(cell: Vector, entity: GameMapEntity): boolean {
+    return this.getBlockers(cell, entity).length > 0;
+  }
+
+  /**
+   * Finds a subcell not taken by infantry standing in, or heading to a cell
+   */
+  public getFreeSubCell(cell: Vector, entity: GameMapEntity): number {
+    const taken = this.getMobileEntities()
+      .filter(e => e !== entity && e.isInfantry())
+      .map((e): number => {
+        const destination = e.getDestinationCell();
+        if (destination) {
+          return destination.equals(cell) ? e.getTargetSubCell() : -1;
+        }
+
+        return e.getCell().equals(cell) ? e.getSubCell() : -1;
+      });
+
+    for (let i = 0; i < INFANTRY_PER_CELL; i++) {
+      if (taken.indexOf(i) === -1) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Finds the closest cell around a destination with room for more infantry
+   */
+  public getFreeInfantryCell(cell: Vector, entity: GameMapEntity, radius: number = 2): Vector | undefined {
+    for (let r = 0; r <= radius; r++) {
+      for (let y = cell.y - r; y <= cell.y + r; y++) {
+        for (let x = cell.x - r; x <= cell.x + r; x++) {
+          if (Math.abs(x - cell.x) !== r && Math.abs(y - cell.y) !== r) {
+            continue;
+          }
+
+          const c = new Vector(x, y);
+          const units = (this.cells.get(cellKey(c)) || []).filter(e => !e.isInfantry());
+          if (units.length === 0 && this.map.getMovementCost(c, 'Foot') !== Infinity && this.getFreeSubCell(c, entity) !== -1) {
+            return c;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private getMobileEntities(): GameMapEntity[] {
+    return this.map.getEntities()
+      .filter(e => (e.isUnit() || e.isInfantry()) && !e.isDestroyed()) as GameMapEntity[];
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMap } from './map';
+import { GameMapEntity } from './entities/mapentity';
+import { Vector } from 'vector2d';
+
+/**
+ * Number of path searches allowed per tick. The rest wait in line.
+ */
+export const PATHS_PER_TICK = 5;
+
+/**
+ * Number of paths kept around until walkability changes
+ */
+export const PATH_CACHE_SIZE = 256;
+
+/**
+ * How many cells around the source and destination a local search may go
+ */
+export const LOCAL_PATH_PADDING = 2;
+
+/**
+ * Columns in land.ini. Hover moves with the best of wheels and float.
+ */
+export type GameMapLocomotor = 'Foot' | 'Track' | 'Wheel' | 'Float' | 'Hover';
+
+/**
+ * Cost of moving into a cell. Infinity means blocked.
+ */
+export type GameMapPathCost = (x: number, y: number) => number;
+
+/**
+ * A path search that did not fit in the budget of a tick
+ */
+export interface GameMapPathRequest {
+  destination: Vector;
+  force: boolean;
+  tick: number;
+}
+
+interface PathNode {
+  index: number;
+  f: number;
+}
+
+/**
+ * Maps the MovementType from units.ini to a locomotor
+ */
+export const getLocomotor = (movementType: number): GameMapLocomotor => {
+  switch (movementType) {
+    case 0:
+      return 'Foot';
+    case 3:
+      return 'Wheel';
+    case 5:
+      return 'Hover';
+    case 6:
+      return 'Float';
+  }
+
+  return 'Track';
+};
+
+/**
+ * Minimal binary heap for the open list
+ */
+class PathHeap {
+  private readonly nodes: PathNode[] = [];
+
+  public push(node: PathNode): void {
+    const nodes = this.nodes;
+    nodes.push(node);
+
+    let i = nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (nodes[parent].f <= nodes[i].f) {
+        break;
+      }
+
+      [nodes[parent], nodes[i]] = [nodes[i], nodes[parent]];
+      i = parent;
+    }
+  }
+
+  public pop(): PathNode | undefined {
+    const nodes = this.nodes;
+    const top = nodes[0];
+    const last = nodes.pop();
+
+    if (nodes.length > 0 && last) {
+      nodes[0] = last;
+
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+
+        if (l < nodes.length && nodes[l].f < nodes[min].f) {
+          min = l;
+        }
+        if (r < nodes.length && nodes[r].f < nodes[min].f) {
+          min = r;
+        }
+        if (min === i) {
+          break;
+        }
+
+        [nodes[min], nodes[i]] = [nodes[i], nodes[min]];
+        i = min;
+      }
+    }
+
+    return top;
+  }
+
+  public isEmpty(): boolean {
+    return this.nodes.length === 0;
+  }
+}
+
+/**
+ * Weighted A* with diagonal movement. Returns the cells after the source.
+ */
+export const findPath = (source: Vector, destination: Vector, dimension: Vector, cost: GameMapPathCost): Vector[] => {
+  const w = dimension.x;
+  const h = dimension.y;
+  const start = source.y * w + source.x;
+  const end = destination.y * w + destination.x;
+  const g = new Float64Array(w * h).fill(Infinity);
+  const parents = new Int32Array(w * h).fill(-1);
+  const closed = new Uint8Array(w * h);
+  const open = new PathHeap();
+
+  // NOTE: Octile distance. Road is the cheapest land at a cost of 1
+  const heuristic = (x: number, y: number): number => {
+    const dx = Math.abs(x - destination.x);
+    const dy = Math.abs(y - destination.y);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  };
+
+  g[start] = 0;
+  open.push({ index: start, f: heuristic(source.x, source.y) });
+
+  while (!open.isEmpty()) {
+    const { index } = open.pop()!;
+    if (closed[index]) {
+      continue;
+    }
+
+    if (index === end) {
+      const path: Vector[] = [];
+      for (let i = end; i !== start; i = parents[i]) {
+        path.unshift(new Vector(i % w, Math.floor(i / w)));
+      }
+      return path;
+    }
+
+    closed[index] = 1;
+
+    const x = index % w;
+    const y = Math.floor(index / w);
+
+    for (let ny = y - 1; ny <= y + 1; ny++) {
+      for (let nx = x - 1; nx <= x + 1; nx++) {
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) {
+          continue;
+        }
+
+        const n = ny * w + nx;
+        if (closed[n]) {
+          continue;
+        }
+
+        const c = cost(nx, ny);
+        if (c === Infinity) {
+          continue;
+        }
+
+        const ng = g[index] + c * (nx === x || ny === y ? 1 : Math.SQRT2);
+        if (ng < g[n]) {
+          g[n] = ng;
+          parents[n] = index;
+          open.push({ index: n, f: ng + heuristic(nx, ny) });
+        }
+      }
+    }
+  }
+
+  return [];
+};
+
+/**
+ * Cost of reaching a destination from every cell on the map, shared by a group
+ * of units moving to the same place. Infinity means unreachable.
+ */
+export const createFlowField = (destination: Vector, dimension: Vector, cost: GameMapPathCost): Float64Array => {
+  const w = dimension.x;
+  const h = dimension.y;
+  const end = destination.y * w + destination.x;
+  const field = new Float64Array(w * h).fill(Infinity);
+  const closed = new Uint8Array(w * h);
+  const open = new PathHeap();
+
+  field[end] = 0;
+  open.push({ index: end, f: 0 });
+
+  while (!open.isEmpty()) {
+    const { index } = open.pop()!;
+    if (closed[index]) {
+      continue;
+    }
+
+    closed[index] = 1;
+
+    const x = index % w;
+    const y = Math.floor(index / w);
+    const c = index === end ? 1 : cost(x, y);
+
+    for (let ny = y - 1; ny <= y + 1; ny++) {
+      for (let nx = x - 1; nx <= x + 1; nx++) {
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) {
+          continue;
+        }
+
+        const n = ny * w + nx;
+        if (closed[n]) {
+          continue;
+        }
+
+        // NOTE: Blocked cells get a value so that units standing in them can leave, but are never passed through
+        const ng = field[index] + c * (nx === x || ny === y ? 1 : Math.SQRT2);
+        if (ng < field[n]) {
+          field[n] = ng;
+          if (cost(nx, ny) !== Infinity) {
+            open.push({ index: n, f: ng });
+          }
+        }
+      }
+    }
+  }
+
+  return field;
+};
+
+/**
+ * Walks down a flow field. Returns the cells after the source.
+ */
+export const followFlowField = (field: Float64Array, source: Vector, dimension: Vector, cost: GameMapPathCost): Vector[] => {
+  const w = dimension.x;
+  const h = dimension.y;
+  const path: Vector[] = [];
+
+  let { x, y } = source;
+  while (field[y * w + x] > 0) {
+    let next = -1;
+    for (let ny = y - 1; ny <= y + 1; ny++) {
+      for (let nx = x - 1; nx <= x + 1; nx++) {
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) {
+          continue;
+        }
+
+        const n = ny * w + nx;
+        const value = field[n];
+        if (value < (next === -1 ? field[y * w + x] : field[next]) && (value === 0 || cost(nx, ny) !== Infinity)) {
+          next = n;
+        }
+      }
+    }
+
+    if (next === -1) {
+      break;
+    }
+
+    x = next % w;
+    y = Math.floor(next / w);
+    path.push(new Vector(x, y));
+  }
+
+  return path;
+};
+
+/**
+ * Finds paths for entities on the map. Connected regions are used to turn
+ * down unreachable destinations without searching, found paths are cached
+ * until walkability changes and the number of searches per tick is limited.
+ */
+export class GameMapPathfinder {
+  private readonly map: GameMap;
+  private readonly cache: Map<string, Vector[]> = new Map();
+  private readonly regions: Map<GameMapLocomotor, Int32Array> = new Map();
+  private budget: number = PATHS_PER_TICK;
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  /**
+   * Serves waiting requests, oldest first. Called every tick by the map.
+   */
+  public process(): void {
+    this.budget = PATHS_PER_TICK;
+
+    const pending = this.map.getEntities()
+      .filter(e => (e.isUnit() || e.isInfantry()) && !e.isDestroyed())
+      .filter(e => !!(e as GameMapEntity).getPathRequest()) as GameMapEntity[];
+
+    pending.sort((a, b) => (a.getPathRequest()!.tick - b.getPathRequest()!.tick) || (a.id - b.id));
+
+    for (const e of pending) {
+      const { destination, force } = e.getPathRequest()!;
+      const path = this.findPath(e.getCell(), destination, force, e.getLocomotor());
+      if (!path) {
+        break;
+      }
+
+      e.setPath(path);
+    }
+  }
+
+  /**
+   * Finds a path, or returns nothing if the budget for this tick is spent.
+   * Paths that take other entities into account are never cached.
+   */
+  public findPath(source: Vector, destination: Vector, force: boolean, locomotor: GameMapLocomotor, entity?: GameMapEntity): Vector[] | undefined {
+    const src = this.clamp(source);
+    const dst = this.clamp(destination);
+
+    if (!this.isReachable(src, dst, force, locomotor)) {
+      return [];
+    }
+
+    // NOTE: Cached paths use up the budget as well, otherwise a restored game would not play out the same
+    if (this.budget <= 0) {
+      return undefined;
+    }
+
+    this.budget--;
+
+    const key = `${locomotor}:${src.x},${src.y}:${dst.x},${dst.y}:${force ? 1 : 0}`;
+    const cached = entity ? undefined : this.cache.get(key);
+    if (cached) {
+      return [...cached];
+    }
+
+    const path = this.map.createPath(src, dst, force, locomotor, entity);
+    if (!entity) {
+      if (this.cache.size >= PATH_CACHE_SIZE) {
+        this.cache.delete(this.cache.keys().next().value);
+      }
+
+      this.cache.set(key, [...path]);
+    }
+
+    return path;
+  }
+
+  /**
+   * Searches for a short path inside a box around the source and destination.
+   * This is cheap, so it does not use up the budget. Empty if there is none inside the box.
+   */
+  public findLocalPath(source: Vector, destination: Vector, locomotor: GameMapLocomotor): Vector[] {
+    const src = this.clamp(source);
+    const dst = this.clamp(destination);
+    const dimension = this.map.getMapDimension();
+    const x1 = Math.max(0, Math.min(src.x, dst.x) - LOCAL_PATH_PADDING);
+    const y1 = Math.max(0, Math.min(src.y, dst.y) - LOCAL_PATH_PADDING);
+    const x2 = Math.min(dimension.x - 1, Math.max(src.x, dst.x) + LOCAL_PATH_PADDING);
+    const y2 = Math.min(dimension.y - 1, Math.max(src.y, dst.y) + LOCAL_PATH_PADDING);
+    const offset = new Vector(x1, y1);
+
+    const cost = (x: number, y: number): number => this.map.getMovementCost(new Vector(x + x1, y + y1), locomotor);
+    return findPath(src.clone().subtract(offset) as Vector, dst.clone().subtract(offset) as Vector, new Vector(x2 - x1 + 1, y2 - y1 + 1), cost)
+      .map(c => c.add(offset) as Vector);
+  }
+
+  /**
+   * Creates a flow field towards a cell, or returns nothing if the budget for this tick is spent.
+   * A flow field counts as one search.
+   */
+  public createFlowField(destination: Vector, locomotor: GameMapLocomotor): Float64Array | undefined {
+    if (this.budget <= 0) {
+      return undefined;
+    }
+
+    this.budget--;
+
+    const cost = (x: number, y: number): number => this.map.getMovementCost(new Vector(x, y), locomotor);
+    return createFlowField(this.clamp(destination), this.map.getMapDimension(), cost);
+  }
+
+  /**
+   * Checks if the source and destination are in the same connected region
+   */
+  public isReachable(source: Vector, destination: Vector, force: boolean, locomotor: GameMapLocomotor): boolean {
+    const from = this.getRegionsAround(source, false, locomotor);
+    const to = this.getRegionsAround(destination, force, locomotor);
+
+    return from.some(r => to.indexOf(r) !== -1);
+  }
+
+  /**
+   * Called when cells become (un)walkable or change land type
+   */
+  public invalidate(): void {
+    this.cache.clear();
+    this.regions.clear();
+  }
+
+  /**
+   * Gets the region of a cell, or of its neighbours when blocked or forced
+   */
+  private getRegionsAround(cell: Vector, force: boolean, locomotor: GameMapLocomotor): number[] {
+    const regions = this.getRegions(locomotor);
+    const dimension = this.map.getMapDimension();
+    const region = regions[cell.y * dimension.x + cell.x];
+
+    if (region !== -1 && !force) {
+      return [region];
+    }
+
+    const result: number[] = region === -1 ? [] : [region];
+    for (let y = cell.y - 1; y <= cell.y + 1; y++) {
+      for (let x = cell.x - 1; x <= cell.x + 1; x++) {
+        if (x >= 0 && y >= 0 && x < dimension.x && y < dimension.y) {
+          const r = regions[y * dimension.x + x];
+          if (r !== -1 && result.indexOf(r) === -1) {
+            result.push(r);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Flood fills the map into regions of connected cells. Blocked cells are -1.
+   */
+  private getRegions(locomotor: GameMapLocomotor): Int32Array {
+    const existing = this.regions.get(locomotor);
+    if (existing) {
+      return existing;
+    }
+
+    const dimension = this.map.getMapDimension();
+    const w = dimension.x;
+    const h = dimension.y;
+    const regions = new Int32Array(w * h).fill(-2);
+    let count = 0;
+
+    for (let i = 0; i < w * h; i++) {
+      if (regions[i] !== -2) {
+        continue;
+      }
+
+      if (this.map.getMovementCost(new Vector(i % w, Math.floor(i / w)), locomotor) === Infinity) {
+        regions[i] = -1;
+        continue;
+      }
+
+      const stack = [i];
+      regions[i] = count;
+
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % w;
+        const y = Math.floor(index / w);
+
+        for (let ny = y - 1; ny <= y + 1; ny++) {
+          for (let nx = x - 1; nx <= x + 1; nx++) {
+            const n = ny * w + nx;
+            if (nx < 0 || ny < 0 || nx >= w || ny >= h || regions[n] !== -2) {
+              continue;
+            }
+
+            if (this.map.getMovementCost(new Vector(nx, ny), locomotor) === Infinity) {
+              regions[n] = -1;
+            } else {
+              regions[n] = count;
+              stack.push(n);
+            }
+          }
+        }
+      }
+
+      count++;
+    }
+
+    this.regions.set(locomotor, regions);
+
+    return regions;
+  }
+
+  private clamp(v: Vector): Vector {
+    const dimension = this.map.getMapDimension();
+    return new Vector(
+      Math.min(dimension.x - 1, Math.max(0, v.x)),
+      Math.min(dimension.y - 1, Math.max(0, v.y))
+    );
+  }
+}
@@ -109,11 +109,13 @@ export const getSubCellOffset = (subcell: number, dimension: Vector): Vector =>
 
 export const findClosestPosition = (source: Vector, positions: Vector[]) => {
   let closest = -1;
+  let closestDistance = -1;
 
   for (let i = 0; i < positions.length; i++) {
     let distance = source.distance(positions[i]);
-    if (closest === -1 || distance < closest) {
+    if (closest === -1 || distance < closestDistance) {
       closest = i;
+      closestDistance = distance;
     }
   }
 
@@ -4,7 +4,7 @@
  * @license MIT
  */
 
-import { defaultTeamMap, MIXMapPlayer, MIXPlayerName, MIXTeamName } from './mix';
+import { defaultTeamMap, MIXMapPlayer, MIXPlayerName, MIXTeamName, MIXSaveGamePlayer } from './mix';
 import { GameEntity } from './entity';
 import EventEmitter from 'eventemitter3';
 
@@ -15,7 +15,14 @@ export class Player extends EventEmitter {
   protected name: MIXPlayerName = 'GoodGuy';
   protected team: MIXTeamName = 'gdi';
   protected structures: Set<string> = new Set();
+  protected structuresBuilt: Set<string> = new Set();
+  protected specialWeapons: Set<string> = new Set();
+  protected lost: [number, number] = [0, 0]; // Units / Structures
+  protected evacuated: number = 0;
+  protected production: boolean = false;
+  protected autocreate: boolean = false;
   protected sessionPlayer: boolean = false;
+  protected remotePlayer: boolean = false;
 
   public constructor(id: number, name: MIXPlayerName, team?: MIXTeamName) {
     super();
@@ -51,6 +58,53 @@ export class Player extends EventEmitter {
     this.credits = data.Credits * 100;
   }
 
+  public toJson(): MIXSaveGamePlayer {
+    return {
+      name: this.name,
+      credits: this.credits,
+      power: [this.power[0], this.power[1]],
+      structuresBuilt: Array.from(this.structuresBuilt),
+      specialWeapons: Array.from(this.specialWeapons),
+      lost: [this.lost[0], this.lost[1]],
+      evacuated: this.evacuated,
+      production: this.production,
+      autocreate: this.autocreate
+    };
+  }
+
+  public restore(data: MIXSaveGamePlayer): void {
+    this.credits = data.credits;
+    this.power = [data.power[0], data.power[1]];
+    this.structuresBuilt = new Set(data.structuresBuilt);
+    this.specialWeapons = new Set(data.specialWeapons);
+    this.lost = [data.lost[0], data.lost[1]];
+    this.evacuated = data.evacuated;
+    this.production = data.production;
+    this.autocreate = data.autocreate;
+    this.emit('specials-updated');
+  }
+
+  public addBuilt(name: string): void {
+    this.structuresBuilt.add(name);
+  }
+
+  public addLoss(entity: GameEntity): void {
+    if (entity.isStructure()) {
+      this.lost[1]++;
+    } else if (entity.isUnit() || entity.isInfantry()) {
+      this.lost[0]++;
+    }
+  }
+
+  public addEvacuated(count: number = 1): void {
+    this.evacuated += count;
+  }
+
+  public addSpecialWeapon(name: string): void {
+    this.specialWeapons.add(name);
+    this.emit('specials-updated');
+  }
+
   public addCredits(credits: number): void {
     this.credits += credits;
   }
@@ -75,6 +129,18 @@ export class Player extends EventEmitter {
     this.sessionPlayer = sess;
   }
 
+  public setRemotePlayer(remote: boolean) {
+    this.remotePlayer = remote;
+  }
+
+  public setProduction(production: boolean): void {
+    this.production = production;
+  }
+
+  public setAutocreate(autocreate: boolean): void {
+    this.autocreate = autocreate;
+  }
+
   public getId(): number {
     return this.id;
   }
@@ -95,10 +161,71 @@ export class Player extends EventEmitter {
     return Array.from(this.structures.values());
   }
 
+  public getPower(): [number, number] {
+    return this.power;
+  }
+
+  public getUnitsLost(): number {
+    return this.lost[0];
+  }
+
+  public getStructuresLost(): number {
+    return this.lost[1];
+  }
+
+  public getEvacuated(): number {
+    return this.evacuated;
+  }
+
   public isSessionPlayer(): boolean {
     return this.sessionPlayer;
   }
 
+  public isRemotePlayer(): boolean {
+    return this.remotePlayer;
+  }
+
+  public isHumanPlayer(): boolean {
+    return this.sessionPlayer || this.remotePlayer;
+  }
+
+  public isLowPower(): boolean {
+    return this.power[1] > this.power[0];
+  }
+
+  public isProducing(): boolean {
+    return this.production;
+  }
+
+  public isAutocreating(): boolean {
+    return this.autocreate;
+  }
+
+  /**
+   * Every house fights for itself. The team only decides the side
+   * (sidebar, build options), so multiplayer houses on the same side are
+   * still enemies.
+   */
+  public isEnemy(player: Player): boolean {
+    if (this.team === 'neutral' || player.team === 'neutral') {
+      return false;
+    }
+
+    return this.name !== player.name;
+  }
+
+  public hasBuilt(name: string): boolean {
+    return this.structuresBuilt.has(name);
+  }
+
+  public hasSpecialWeapon(name: string): boolean {
+    return this.specialWeapons.has(name);
+  }
+
+  public hasFactory(): boolean {
+    return ['FACT', 'WEAP', 'AFLD', 'HAND', 'PYLE'].some(n => this.getStructures().indexOf(n) !== -1);
+  }
+
   public hasPrequisite(names: string[]): boolean {
     if (!this.structures.size) {
       return false;
@@ -0,0 +1,290 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameEntity } from './entity';
+import { GameMap } from './map';
+import { AircraftEntity } from './entities/aircraft';
+import { InfantryEntity } from './entities/infantry';
+import { GameMapEntity } from './entities/mapentity';
+import { Player } from './player';
+import { MIXSaveGameReinforcements, MIXUnit } from './mix';
+import { GameMapLocomotor, getLocomotor } from './pathfinding';
+import { Vector } from 'vector2d';
+
+export type GameMapReinforcementMethod = 'edge' | 'air' | 'hover';
+
+export type GameMapReinforcementCallback = (entities: GameEntity[]) => void;
+
+interface GameMapReinforcementCargo {
+  names: string[];
+  player: Player;
+  cb?: GameMapReinforcementCallback;
+}
+
+/**
+ * Map Reinforcements
+ */
+export class GameMapReinforcements {
+  private readonly map: GameMap;
+  private readonly cargo: Map<GameEntity, GameMapReinforcementCargo> = new Map();
+  private readonly returning: Set<GameEntity> = new Set();
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  public toJson(): MIXSaveGameReinforcements {
+    return {
+      cargo: Array.from(this.cargo.entries()).map(([transport, cargo]) => ({
+        transport: transport.id,
+        names: [...cargo.names],
+        player: cargo.player.getName()
+      })),
+      returning: Array.from(this.returning.values()).map(transport => transport.id)
+    };
+  }
+
+  /**
+   * Restores transports from a save. Cargo of transports that belongs to a
+   * team is handed over to the team when unloaded, like when it was sent.
+   */
+  public restore(data: MIXSaveGameReinforcements): void {
+    this.cargo.clear();
+    this.returning.clear();
+
+    for (let c of data.cargo) {
+      const transport = this.map.getEntityById(c.transport);
+      const player = this.map.getPlayerByName(c.player);
+
+      if (transport && player) {
+        const team = this.map.teams.getTeams().find(t => t.isMember(transport));
+        const cb = team ? (entities: GameEntity[]) => entities.forEach(e => team.addMember(e)) : undefined;
+        this.cargo.set(transport, { names: c.names, player, cb });
+      }
+    }
+
+    for (let id of data.returning) {
+      const transport = this.map.getEntityById(id);
+      if (transport) {
+        this.returning.add(transport);
+      }
+    }
+  }
+
+  /**
+   * Delivers a list of objects to the map. If a transport is part of the list
+   * the rest of the objects are delivered with it, otherwise they arrive
+   * from the edge of the house.
+   */
+  public reinforce(names: string[], player: Player, destination?: Vector, cb?: GameMapReinforcementCallback): GameEntity[] {
+    const method = this.getMethod(names);
+    const transport = this.getTransport(names);
+    const cargo = names.filter(name => name !== transport);
+
+    console.debug('GameMapReinforcements::reinforce()', method, names, player.getName(), destination);
+
+    if (method === 'air') {
+      const cell = destination || this.map.getEdgeCell(player, undefined, 'Foot');
+      this.map.visibility.revealAt(player, cell, 1);
+      return this.spawn([transport!], player, cell, true, (entities: GameEntity[]) => {
+        entities.forEach(e => {
+          this.cargo.set(e, { names: cargo, player, cb });
+          (e as AircraftEntity).land(cell);
+        });
+
+        this.deliver(entities, undefined, cb);
+      });
+    } else if (method === 'hover') {
+      const cell = this.map.getEdgeCell(player, destination, 'Float');
+      return this.spawn([transport!], player, cell, true, (entities: GameEntity[]) => {
+        entities.forEach(e => this.cargo.set(e, { names: cargo, player, cb }));
+        this.deliver(entities, destination, cb);
+      });
+    }
+
+    const cell = this.map.getEdgeCell(player, destination);
+    return this.spawn(names, player, cell, true, (entities: GameEntity[]) => this.deliver(entities, destination, cb));
+  }
+
+  /**
+   * Unloads the cargo of a transport onto the closest available land
+   */
+  public unload(transport: GameEntity): GameEntity[] {
+    const cargo = this.cargo.get(transport);
+    if (!cargo) {
+      return [];
+    }
+
+    this.cargo.delete(transport);
+
+    if (transport.isDestroyed()) {
+      return [];
+    }
+
+    const entities = this.spawn(cargo.names, cargo.player, transport.getCell(), false, cargo.cb);
+    if (transport.isAircraft()) {
+      (transport as AircraftEntity).takeOff();
+    } else {
+      const exit = this.map.getEdgeCell(cargo.player, transport.getCell(), (transport as GameMapEntity).getLocomotor());
+      transport.move(exit, false);
+      this.returning.add(transport);
+    }
+
+    return entities;
+  }
+
+  /**
+   * Unloads transports that was not sent by a team once they have stopped,
+   * removes empty transports that has left and picks up civilians from the
+   * drop zone. Called periodically by the map.
+   */
+  public process(): void {
+    for (let [transport, cargo] of this.cargo.entries()) {
+      if (transport.isDestroyed()) {
+        this.cargo.delete(transport);
+      } else if (!cargo.cb && !transport.isMoving()) {
+        this.unload(transport);
+      }
+    }
+
+    for (let transport of this.returning.values()) {
+      if (!transport.isMoving()) {
+        this.returning.delete(transport);
+        transport.destroy();
+      }
+    }
+
+    this.evacuate();
+  }
+
+  /**
+   * Civilians that has stopped at the drop zone ('DZ at Z') of their house are
+   * evacuated, which is what the 'Civ. Evac.' trigger event waits for
+   */
+  protected evacuate(): void {
+    const flare = this.map.data.waypoints.find(w => w.name === 'flare');
+    if (!flare) {
+      return;
+    }
+
+    const civilians = this.map.getEntities()
+      .filter(e => e.isInfantry() && !!e.player && !e.isDestroyed() && !e.isMoving())
+      .filter(e => (e as InfantryEntity).properties.IsCivilian) as InfantryEntity[];
+
+    for (let e of civilians) {
+      const cell = e.getCell();
+      const near = Math.max(Math.abs(cell.x - flare.cell.x), Math.abs(cell.y - flare.cell.y)) <= 1;
+
+      if (near && this.map.visibility.isRevealedAt(e.player!, flare.cell)) {
+        console.debug('GameMapReinforcements::evacuate()', e.getName(), e.player!.getName());
+        e.player!.addEvacuated();
+        this.map.removeEntity(e);
+      }
+    }
+  }
+
+  protected deliver(entities: GameEntity[], destination?: Vector, cb?: GameMapReinforcementCallback): void {
+    if (cb) {
+      cb(entities);
+    } else if (destination) {
+      this.map.formation.move(entities, destination, true);
+    }
+  }
+
+  /**
+   * Adds objects right away, so everything is in place on the same tick on all clients
+   */
+  protected spawn(names: string[], player: Player, cell: Vector, edge: boolean, cb?: GameMapReinforcementCallback): GameEntity[] {
+    const entities: GameEntity[] = [];
+    const taken: Vector[] = [];
+
+    for (let name of names) {
+      const type = this.map.engine.mix.getType(name) || 'unit';
+      const locomotor = this.getSpawnLocomotor(name);
+      const target = edge
+        ? this.map.getEdgeCell(player, cell, locomotor, taken)
+        : this.map.getClosestWalkableCell(cell, locomotor || 'Foot', taken);
+
+      if (!target) {
+        console.warn('GameMapReinforcements::spawn()', 'No room for', name);
+        continue;
+      }
+
+      if (type !== 'infantry') {
+        taken.push(target);
+      }
+
+      this.map.factory.load(type, {
+        name,
+        player: player.getId(),
+        cell: target.clone() as Vector
+      }, (entity: GameEntity) => entities.push(entity));
+    }
+
+    if (cb) {
+      cb(entities);
+    }
+
+    return entities;
+  }
+
+  /**
+   * Sends an A-10 from the edge of the house to bomb a cell
+   */
+  public airstrike(player: Player, cell: Vector): Promise<void> {
+    const edge = this.map.getEdgeCell(player, cell);
+
+    return this.map.factory.load('aircraft', {
+      name: 'A10',
+      player: player.getId(),
+      cell: edge
+    }, (entity: AircraftEntity) => entity.bomb(cell));
+  }
+
+  public getMethod(names: string[]): GameMapReinforcementMethod {
+    const transport = this.getTransport(names);
+    if (transport) {
+      return this.map.engine.mix.aircraft.has(transport) ? 'air' : 'hover';
+    }
+
+    return 'edge';
+  }
+
+  /**
+   * Gets the transport that carries the rest of the objects. Ground
+   * transports (ex. APC) arrives from the edge with everything else.
+   */
+  public getTransport(names: string[]): string | undefined {
+    return names
+      .filter(name => this.isTransport(name))
+      .find(name => this.map.engine.mix.aircraft.has(name) || this.getSpawnLocomotor(name) === 'Float');
+  }
+
+  public isTransport(name: string): boolean {
+    const properties = this.map.engine.mix.units.get(name) || this.map.engine.mix.aircraft.get(name);
+    return !!properties && properties.IsTransport;
+  }
+
+  /**
+   * Gets what an object needs to be placed on. Nothing for aircraft,
+   * and hovercraft comes in from the water.
+   */
+  protected getSpawnLocomotor(name: string): GameMapLocomotor | undefined {
+    const type = this.map.engine.mix.getType(name);
+    if (type === 'aircraft') {
+      return undefined;
+    } else if (type === 'infantry') {
+      return 'Foot';
+    }
+
+    const properties = this.map.engine.mix.units.get(name) as MIXUnit | undefined;
+    const locomotor = properties ? getLocomotor(properties.MovementType) : 'Track';
+    return locomotor === 'Hover' ? 'Float' : locomotor;
+  }
+
+  public hasCargo(entity: GameEntity): boolean {
+    return this.cargo.has(entity);
+  }
+}
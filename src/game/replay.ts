@@ -0,0 +1,163 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMapCommand } from './commands';
+import { GameMapChecksumRecord, GameMapSnapshotRecord } from './checksum';
+import { MIXPlayerName, MIXSaveGame } from './mix';
+import { GameMap } from './map';
+
+export const REPLAY_VERSION = 2;
+export const REPLAY_MAX_SPEED = 8;
+
+export interface GameReplayData {
+  version: number;
+  name: string;
+  player: MIXPlayerName;
+  players: MIXPlayerName[];
+  seed: number;
+  ticks: number;
+  commands: GameMapCommand[];
+  checksums?: GameMapChecksumRecord[];
+  snapshots?: GameMapSnapshotRecord[];
+  save?: MIXSaveGame;
+}
+
+/**
+ * Records every applied order, including the ones given by computer players.
+ * A game loaded from a save is recorded from the state of the save.
+ * A snapshot is kept with every checksum so that playback can diff a desync.
+ */
+export class GameReplayRecorder {
+  private readonly map: GameMap;
+  private readonly save?: MIXSaveGame;
+  private commands: GameMapCommand[] = [];
+  private checksums: GameMapChecksumRecord[] = [];
+  private snapshots: GameMapSnapshotRecord[] = [];
+
+  public constructor(map: GameMap, save?: MIXSaveGame) {
+    this.map = map;
+    this.save = save;
+    this.map.commands.on('command', (command: GameMapCommand) => this.onCommand(command));
+    this.map.checksums.on('checksum', (tick: number, value: number) => this.onChecksum(tick, value));
+    this.map.checksums.setSnapshots(true);
+  }
+
+  /**
+   * NOTE: Commands from computer players are dispatched during a tick and applied on the next,
+   * so the tick it was applied on is recorded
+   */
+  protected onCommand(command: GameMapCommand): void {
+    this.commands.push({ ...command, tick: this.map.getTicks() });
+  }
+
+  protected onChecksum(tick: number, value: number): void {
+    this.checksums.push([tick, value]);
+
+    const snapshot = this.map.checksums.getSnapshot(tick);
+    if (snapshot) {
+      this.snapshots.push([tick, snapshot]);
+    }
+  }
+
+  public toJson(): GameReplayData {
+    return {
+      version: REPLAY_VERSION,
+      name: this.map.getName(),
+      player: this.map.player.getName(),
+      players: this.map.getPlayers().filter(p => p.isHumanPlayer()).map(p => p.getName()),
+      seed: this.map.random.getSeed(),
+      ticks: this.map.getTicks(),
+      commands: [...this.commands],
+      checksums: [...this.checksums],
+      snapshots: [...this.snapshots],
+      save: this.save
+    };
+  }
+}
+
+/**
+ * Re-simulates a recorded mission
+ */
+export class GameReplayPlayback {
+  public readonly data: GameReplayData;
+  private readonly map: GameMap;
+  private paused: boolean = false;
+  private speed: number = 1;
+
+  public constructor(data: GameReplayData, map: GameMap) {
+    if (data.version !== REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version ${data.version}`);
+    }
+
+    this.data = data;
+    this.map = map;
+
+    (data.players || [])
+      .filter(name => name !== data.player)
+      .forEach(name => this.map.getPlayerByName(name)!.setRemotePlayer(true));
+  }
+
+  public toString(): string {
+    const status = this.paused ? 'Paused' : `${this.speed}x`;
+    return `${status} ${this.map.getViewPlayer().getName()}`;
+  }
+
+  /**
+   * Schedules all recorded commands on the tick they were originally applied
+   * and verifies the recorded checksums as the ticks are reached.
+   * A mismatch is diffed against the recorded snapshot of the tick.
+   * Computer players still runs, but their commands are the recorded ones.
+   * Needs to be called after the map was initialized (from the save of the replay if any).
+   */
+  public init(): void {
+    this.map.getPlayers()
+      .filter(p => p.isRemotePlayer())
+      .forEach(p => this.map.createConstructionQueues(p));
+
+    this.map.commands.clear();
+    this.data.commands.forEach(command => this.map.commands.dispatch(command));
+    this.map.commands.lock();
+    const snapshots = new Map(this.data.snapshots || []);
+    this.map.checksums.setSnapshots(true);
+    (this.data.checksums || []).forEach(([tick, value]) => this.map.checksums.verify(tick, value, snapshots.get(tick)));
+  }
+
+  /**
+   * Gets how many map ticks to run this frame
+   */
+  public getTicks(): number {
+    return this.paused || this.isFinished() ? 0 : this.speed;
+  }
+
+  /**
+   * Switches the view to the next player in the map
+   */
+  public async nextViewPlayer(): Promise<void> {
+    const players = this.map.getPlayers();
+    const index = players.indexOf(this.map.getViewPlayer());
+    const next = players[(index + 1) % players.length];
+    await this.map.setViewPlayer(next);
+  }
+
+  public togglePause(): void {
+    this.paused = !this.paused;
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = Math.max(1, Math.min(REPLAY_MAX_SPEED, Math.round(speed)));
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public isFinished(): boolean {
+    return this.map.getTicks() >= this.data.ticks;
+  }
+}
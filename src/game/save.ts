@@ -0,0 +1,164 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { MIXPlayerName, MIXSaveGame, playerMap } from './mix';
+
+export const SAVE_VERSION = 4;
+
+/**
+ * A parsed save of any version. Values are narrowed before use.
+ */
+export interface GameSaveObject {
+  [Key: string]: unknown;
+}
+
+export type GameSaveMigration = (save: GameSaveObject) => GameSaveObject;
+
+const isObject = (v: unknown): v is GameSaveObject => !!v && typeof v === 'object' && !(v instanceof Array);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+const toArray = (v: unknown): unknown[] => v instanceof Array ? v : [];
+
+/**
+ * Upgrades a save from the given version to the next one.
+ * Saves without a version are from before the format was versioned.
+ */
+export const saveMigrations: { [Key: number]: GameSaveMigration } = {
+  1: (save: GameSaveObject) => {
+    // Projectiles and effects were dumped without a type
+    const entities = toArray(save.entities)
+      .filter((e): e is GameSaveObject => isObject(e) && !!e.type)
+      .map((e, index) => ({ ...e, id: index + 1 }));
+
+    const seed = isNumber(save.seed) ? save.seed : 0;
+
+    return {
+      ...save,
+      version: 2,
+      player: save.player || 'GoodGuy',
+      seed,
+      random: save.random !== undefined ? save.random : seed,
+      ticks: 0,
+      entityId: entities.length,
+      players: [],
+      construction: {},
+      triggers: [],
+      teams: [],
+      ai: [],
+      fow: [],
+      entities
+    };
+  },
+
+  2: (save: GameSaveObject) => {
+    // Fog of war was only kept for the session player
+    return {
+      ...save,
+      version: 3,
+      fow: save.fow instanceof Array && save.fow.length > 0 ? [{ player: save.player, cells: save.fow }] : save.fow
+    };
+  },
+
+  3: (save: GameSaveObject) => {
+    // Projectiles and reinforcement transports were not saved
+    return {
+      ...save,
+      version: 4,
+      reinforcements: { cargo: [], returning: [] }
+    };
+  }
+};
+
+/**
+ * Checks that a save has everything needed to restore a game
+ */
+export const validateSaveGame = (save: unknown): string[] => {
+  const errors: string[] = [];
+  const ids: Set<number> = new Set();
+
+  if (!isObject(save)) {
+    return ['Not a save game'];
+  }
+
+  if (typeof save.name !== 'string' || !save.name) {
+    errors.push('Missing map name');
+  }
+
+  if (typeof save.player !== 'string' || playerMap.indexOf(save.player as MIXPlayerName) === -1) {
+    errors.push(`Invalid player '${save.player}'`);
+  }
+
+  ['seed', 'random', 'ticks', 'entityId'].forEach(key => {
+    if (!isNumber(save[key])) {
+      errors.push(`Invalid value for '${key}'`);
+    }
+  });
+
+  ['players', 'triggers', 'teams', 'ai', 'fow', 'entities'].forEach(key => {
+    if (!(save[key] instanceof Array)) {
+      errors.push(`Missing list '${key}'`);
+    }
+  });
+
+  if (!isObject(save.construction)) {
+    errors.push('Missing construction queues');
+  }
+
+  const reinforcements = save.reinforcements;
+  if (!isObject(reinforcements) || !(reinforcements.cargo instanceof Array) || !(reinforcements.returning instanceof Array)) {
+    errors.push('Missing reinforcements');
+  }
+
+  toArray(save.entities).forEach((e, index) => {
+    if (!isObject(e) || typeof e.type !== 'string' || typeof e.name !== 'string') {
+      errors.push(`Entity #${index} is missing type or name`);
+    } else if (!isObject(e.cell) || !isNumber(e.cell.x) || !isNumber(e.cell.y)) {
+      errors.push(`Entity #${index} ${e.name} has an invalid cell`);
+    } else if (!isNumber(e.id) || ids.has(e.id)) {
+      errors.push(`Entity #${index} ${e.name} has an invalid or duplicate id`);
+    } else if (e.type === 'projectile' && !e.state) {
+      errors.push(`Entity #${index} ${e.name} is a projectile without state`);
+    } else {
+      ids.add(e.id);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Migrates a parsed save to the current version and validates it
+ */
+export const loadSaveGame = (data: unknown): MIXSaveGame => {
+  if (!isObject(data)) {
+    throw new Error('Invalid save game:\nNot a save game');
+  }
+
+  let save = data;
+  let version = isNumber(save.version) && save.version > 0 ? save.version : 1;
+
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save game version ${version} is newer than supported version ${SAVE_VERSION}`);
+  }
+
+  while (version < SAVE_VERSION) {
+    const migrate = saveMigrations[version];
+    if (!migrate) {
+      throw new Error(`No migration for save game version ${version}`);
+    }
+
+    console.debug('loadSaveGame()', 'Migrating save game from version', version);
+    save = migrate(save);
+    version = isNumber(save.version) ? save.version : SAVE_VERSION;
+  }
+
+  const errors = validateSaveGame(save);
+  if (errors.length > 0) {
+    throw new Error(`Invalid save game:\n${errors.join('\n')}`);
+  }
+
+  return save as unknown as MIXSaveGame;
+};
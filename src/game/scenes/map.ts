@@ -3,28 +3,140 @@
  * @author Anders Evenrud <andersevenrud@gmail.com>
  * @license MIT
  */
-import { Animation, Scene, Entity, Sprite } from '../../engine';
+import { Animation, Scene, Entity, Sprite, Box, collidePoint, createCanvas } from '../../engine';
 import { GameEngine } from '../game';
 import { Player } from '../player';
+import { GameCampaign } from '../campaign';
+import { MIXTeamName, gdiMaps, nodMaps } from '../mix';
 import { spriteFromName } from '../sprites';
 import { getScaledDimensions } from '../physics';
 import { MapSelectionUI } from '../ui/map';
 import { Vector } from 'vector2d';
 
+export type MapSelectionPhase = 'spin' | 'zoom' | 'select';
+
+export interface MapSelectionRegion {
+  name: string;
+  box: Box;
+  color?: number;
+}
+
+export interface MapSelectionMask {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Where each mission variant is on the click masks (320x200), by the suffix
+ * of the map name. West variants are on the left and east variants on the right,
+ * with the letter going from north to south. The country inside the area is
+ * picked from the mask, see applyMapMask().
+ */
+export const mapVariantAreas: { [Key: string]: Box } = {
+  wa: { x1: 16, y1: 16, x2: 160, y2: 72 },
+  wb: { x1: 16, y1: 72, x2: 160, y2: 128 },
+  wc: { x1: 16, y1: 128, x2: 160, y2: 184 },
+  ea: { x1: 160, y1: 16, x2: 304, y2: 72 },
+  eb: { x1: 160, y1: 72, x2: 304, y2: 128 },
+  ec: { x1: 160, y1: 128, x2: 304, y2: 184 }
+};
+
+/**
+ * Creates territories for the mission variants
+ */
+export const createMapRegions = (names: string[]): MapSelectionRegion[] => names
+  .filter(name => {
+    const found = !!mapVariantAreas[name.substr(5, 2)];
+    if (!found) {
+      console.warn('createMapRegions()', 'No area for map', name);
+    }
+    return found;
+  })
+  .map((name): MapSelectionRegion => ({
+    name,
+    box: { ...mapVariantAreas[name.substr(5, 2)] }
+  }));
+
+const getMaskColor = (mask: MapSelectionMask, x: number, y: number): number => {
+  const i = (y * mask.width + x) * 4;
+  const [r, g, b, a] = [mask.data[i], mask.data[i + 1], mask.data[i + 2], mask.data[i + 3]];
+  return a === 0 ? 0 : (r << 16) | (g << 8) | b;
+};
+
+/**
+ * Gives every territory the country from the click_*.png mask that covers
+ * most of its area. Each country has its own color in the mask, and a country
+ * is only given to one territory.
+ */
+export const applyMapMask = (regions: MapSelectionRegion[], mask: MapSelectionMask): MapSelectionRegion[] => {
+  const taken: Set<number> = new Set();
+
+  return regions.map((region): MapSelectionRegion => {
+    const counts: Map<number, number> = new Map();
+    const { x1, y1, x2, y2 } = region.box;
+
+    for (let y = Math.max(0, Math.floor(y1)); y < Math.min(mask.height, Math.ceil(y2)); y++) {
+      for (let x = Math.max(0, Math.floor(x1)); x < Math.min(mask.width, Math.ceil(x2)); x++) {
+        const color = getMaskColor(mask, x, y);
+        if (color !== 0 && !taken.has(color)) {
+          counts.set(color, (counts.get(color) || 0) + 1);
+        }
+      }
+    }
+
+    const [color] = Array.from(counts.entries())
+      .reduce((a, b) => b[1] > a[1] ? b : a, [0, 0]);
+
+    if (color === 0) {
+      return region;
+    }
+
+    taken.add(color);
+    return { ...region, color };
+  });
+};
+
+/**
+ * Gets the territory at a position. Territories without a country in the mask uses their box.
+ */
+export const getMapRegionAt = (regions: MapSelectionRegion[], position: Vector, mask?: MapSelectionMask): MapSelectionRegion | undefined => {
+  const x = Math.floor(position.x);
+  const y = Math.floor(position.y);
+  const inside = !!mask && x >= 0 && y >= 0 && x < mask.width && y < mask.height;
+  const color = inside ? getMaskColor(mask!, x, y) : 0;
+
+  return regions.find(region => region.color !== undefined
+    ? region.color === color
+    : collidePoint(position, region.box));
+};
+
 class MapScene extends Entity {
   public readonly engine: GameEngine;
-  private readonly animation: Animation;
+  public regions: MapSelectionRegion[];
+  public hovering?: MapSelectionRegion;
+  private mask?: MapSelectionMask;
+  private highlights: Map<MapSelectionRegion, HTMLCanvasElement> = new Map();
+  private readonly team: MIXTeamName;
+  private phase: MapSelectionPhase = 'spin';
+  private animation: Animation;
 
   protected readonly sprites: Map<string, Sprite> = new Map([
-    ['background', spriteFromName('GENERAL.MIX/greyerth.png')]
+    ['background', spriteFromName('GENERAL.MIX/greyerth.png')],
+    ['zoom-gdi', spriteFromName('UPDATE.MIX/hearth_e.png')],
+    ['zoom-nod', spriteFromName('UPDATE.MIX/hearth_a.png')],
+    ['click-gdi', spriteFromName('GENERAL.MIX/click_e.png')],
+    ['click-nod', spriteFromName('GENERAL.MIX/click_a.png')]
   ]);
 
-  public constructor(engine: GameEngine) {
+  public constructor(names: string[], team: MIXTeamName, engine: GameEngine) {
     super();
     this.engine = engine;
+    this.team = team;
 
     const bkg = this.sprites.get('background') as Sprite;
-    this.animation = new Animation('spinning', new Vector(0, 0), bkg.frames, 0.1);
+    this.animation = new Animation('spinning', new Vector(0, 0), bkg.frames, 0.1, names.length === 0);
+    this.regions = createMapRegions(names);
   }
 
   public async init(): Promise<void> {
@@ -34,16 +146,109 @@ class MapScene extends Entity {
 
     const bkg = this.sprites.get('background') as Sprite;
     this.setDimension(bkg.size);
+
+    if (this.regions.length > 0) {
+      const click = this.sprites.get(this.team === 'nod' ? 'click-nod' : 'click-gdi') as Sprite;
+      this.mask = click.context.getImageData(0, 0, click.size.x, click.size.y);
+      this.regions = applyMapMask(this.regions, this.mask);
+      this.createHighlights();
+
+      this.animation.once('done', () => this.setPhase('zoom'));
+    }
   }
 
   public onUpdate(deltaTime: number): void {
-    this.animation.onUpdate();
+    if (this.phase !== 'select') {
+      this.animation.onUpdate();
+    }
   }
 
   public onRender(deltaTime: number): void {
-    const background = this.sprites.get('background') as Sprite;
+    const sprite = this.phase === 'spin' ? this.sprites.get('background') as Sprite : this.getZoomSprite();
     const frame = this.animation.getFrameIndex();
-    background.render(frame, new Vector(0, 0), this.context);
+    sprite.render(frame, new Vector(0, 0), this.context);
+
+    if (this.phase === 'select') {
+      const color = this.team === 'nod' ? '255, 0, 0' : '255, 215, 0';
+
+      this.context.lineWidth = 1;
+      this.regions.forEach(region => {
+        const highlight = this.highlights.get(region);
+        if (highlight) {
+          if (region === this.hovering) {
+            this.context.drawImage(highlight, 0, 0);
+          }
+          return;
+        }
+
+        const { x1, y1, x2, y2 } = region.box;
+        if (region === this.hovering) {
+          this.context.fillStyle = `rgba(${color}, 0.3)`;
+          this.context.fillRect(x1, y1, x2 - x1, y2 - y1);
+        }
+
+        this.context.strokeStyle = `rgba(${color}, 1)`;
+        this.context.strokeRect(x1 + 0.5, y1 + 0.5, x2 - x1 - 1, y2 - y1 - 1);
+      });
+    }
+  }
+
+  public getRegionAt(position: Vector): MapSelectionRegion | undefined {
+    return this.phase === 'select'
+      ? getMapRegionAt(this.regions, position, this.mask)
+      : undefined;
+  }
+
+  /**
+   * Paints the country of each territory from the mask in the team color
+   */
+  private createHighlights(): void {
+    const mask = this.mask!;
+    const [r, g, b] = this.team === 'nod' ? [255, 0, 0] : [255, 215, 0];
+
+    this.regions
+      .filter(region => region.color !== undefined)
+      .forEach(region => {
+        const canvas = createCanvas();
+        canvas.width = mask.width;
+        canvas.height = mask.height;
+
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+        const image = context.getImageData(0, 0, mask.width, mask.height);
+        for (let y = 0; y < mask.height; y++) {
+          for (let x = 0; x < mask.width; x++) {
+            if (getMaskColor(mask, x, y) === region.color) {
+              const i = (y * mask.width + x) * 4;
+              image.data.set([r, g, b, 96], i);
+            }
+          }
+        }
+
+        context.putImageData(image, 0, 0);
+        this.highlights.set(region, canvas);
+      });
+  }
+
+  public getPhase(): MapSelectionPhase {
+    return this.phase;
+  }
+
+  private setPhase(phase: MapSelectionPhase): void {
+    const zoom = this.getZoomSprite();
+    this.phase = phase;
+
+    if (phase === 'zoom') {
+      this.setDimension(zoom.size);
+      this.animation = new Animation('zoom', new Vector(0, 0), zoom.frames, 0.5, false);
+      this.animation.once('done', () => this.setPhase('select'));
+      this.engine.playArchiveSfx('SOUNDS.MIX/world2.wav', 'gui');
+    } else if (phase === 'select') {
+      this.engine.playArchiveSfx('SOUNDS.MIX/country4.wav', 'gui');
+    }
+  }
+
+  private getZoomSprite(): Sprite {
+    return this.sprites.get(this.team === 'nod' ? 'zoom-nod' : 'zoom-gdi') as Sprite;
   }
 }
 
@@ -53,15 +258,19 @@ class MapScene extends Entity {
 export class MapSelectionScene extends Scene {
   public engine: GameEngine;
   private player: Player;
+  private campaign?: GameCampaign;
+  private selected: boolean = false;
+  private sound?: AudioBuffer;
   protected readonly ui: MapSelectionUI;
   protected readonly screen: MapScene;
 
-  public constructor(player: Player, engine: GameEngine) {
+  public constructor(player: Player, engine: GameEngine, campaign?: GameCampaign) {
     super(engine);
     this.engine = engine;
     this.player = player;
-    this.screen = new MapScene(engine);
-    this.ui = new MapSelectionUI(player.getTeam(), this);
+    this.campaign = campaign;
+    this.screen = new MapScene(campaign ? campaign.getNextMaps() : [], player.getTeam(), engine);
+    this.ui = new MapSelectionUI(campaign ? [] : player.getTeam() === 'nod' ? nodMaps : gdiMaps, this);
   }
 
   public toString(): string {
@@ -74,6 +283,8 @@ export class MapSelectionScene extends Scene {
     await this.screen.init();
     await this.ui.init();
 
+    this.sound = await this.engine.sfxLoader.fetch('SOUNDS.MIX/country1.wav');
+
     const playlist = this.engine.sound.getPlaylist();
     playlist.setList([{
       source: 'TRANSIT.MIX/loopie6m.wav',
@@ -84,7 +295,30 @@ export class MapSelectionScene extends Scene {
   }
 
   public handleMapSelection(name: string): void {
-    this.engine.onMapSelect(name, this.player);
+    if (this.selected) {
+      return;
+    }
+
+    this.selected = true;
+    this.engine.sound.getPlaylist().pause();
+    this.engine.sound.playSfx({
+      context: this.sound as AudioBuffer,
+      done: () => this.engine.onMapSelect(name, this.player, this.campaign)
+    }, 'gui');
+  }
+
+  /**
+   * Gets the name of the territory under the cursor
+   */
+  public getHoveredName(): string {
+    const phase = this.screen.getPhase();
+    if (phase !== 'select') {
+      return '';
+    }
+
+    return this.screen.hovering
+      ? this.screen.hovering.name.toUpperCase()
+      : 'Select territory';
   }
 
   public onResize(): void {
@@ -104,6 +338,7 @@ export class MapSelectionScene extends Scene {
       scale: bR
     });
 
+    this.updateRegions();
     this.screen.onUpdate(deltaTime);
     this.ui.onUpdate(deltaTime);
   }
@@ -121,4 +356,27 @@ export class MapSelectionScene extends Scene {
 
     this.ui.onRender(deltaTime, context);
   }
+
+  private updateRegions(): void {
+    const { mouse } = this.engine;
+    const { dx, dy, bR } = getScaledDimensions(
+      this.screen.getDimension(),
+      this.engine.getScaledDimension()
+    );
+
+    const position = mouse.getVector()
+      .subtract(new Vector(dx, dy))
+      .divS(bR) as Vector;
+
+    const region = this.screen.getRegionAt(position);
+    if (region && region !== this.screen.hovering) {
+      this.engine.playArchiveSfx('SOUNDS.MIX/beepy6.wav', 'gui', { block: true });
+    }
+
+    this.screen.hovering = region;
+
+    if (region && mouse.wasClicked('left')) {
+      this.handleMapSelection(region.name);
+    }
+  }
 }
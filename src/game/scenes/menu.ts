@@ -7,6 +7,7 @@ import { Scene, Sprite, Entity } from '../../engine';
 import { spriteFromName } from  '../sprites';
 import { GameEngine } from '../game';
 import { MainMenuUI } from '../ui/mainmenu';
+import { GameReplayData } from '../replay';
 import { getScaledDimensions } from '../physics';
 import { Vector } from 'vector2d';
 
@@ -77,6 +78,16 @@ export class MenuScene extends Scene {
     this.engine.pushTeamScene();
   }
 
+  public async onContinueCampaign(): Promise<void> {
+    if (!await this.engine.continueCampaign()) {
+      console.warn('MenuScene::onContinueCampaign()', 'No campaign in progress');
+    }
+  }
+
+  public onLoadReplay(replay: GameReplayData): void {
+    this.engine.pushReplayScene(replay);
+  }
+
   public onDestroy(): void {
   }
 
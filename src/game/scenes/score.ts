@@ -5,21 +5,47 @@
  */
 import { Scene, Sprite, Entity, Animation } from '../../engine';
 import { GameEngine } from '../game';
+import { GameScore } from '../statistics';
 import { spriteFromName } from '../sprites';
+import { ScoreUI } from '../ui/score';
 import { Vector } from 'vector2d';
 import { getScaledDimensions } from '../physics';
 
+/**
+ * How many ticks the tallies count up for
+ */
+export const SCORE_TALLY_TICKS = 60;
+
+/**
+ * Rows with bars (y position and which statistic)
+ */
+export const SCORE_BARS: [number, 'unitsLost' | 'structuresLost'][] = [
+  [122, 'unitsLost'],
+  [164, 'structuresLost']
+];
+
+export const SCORE_BAR_X = 150;
+export const SCORE_BAR_SPACING = 10;
+
+/**
+ * Bars are drawn with the size of the image, so they are not in the sprite map
+ */
+const createBarSprite = (source: string): Sprite => new Sprite(source, new Vector(0, 0), 1);
+
 class ScoreScreen extends Entity {
   public readonly engine: GameEngine;
+  public readonly score?: GameScore;
   protected backgroundAnimation: Animation;
   protected timeAnimation: Animation;
+  protected tally: number = 0;
+  protected counting: boolean = false;
 
   protected readonly sprites: Map<string, Sprite> = new Map([
     ['background-gdi', spriteFromName('GENERAL.MIX/s-gdiin2.png')],
     ['background-nod', spriteFromName('GENERAL.MIX/scrscn1.png')],
     ['time', spriteFromName('CONQUER.MIX/time.png')],
-    ['bar-red', spriteFromName('CONQUER.MIX/bar3red.png')],
-    ['bar-yellow', spriteFromName('CONQUER.MIX/bar3ylw.png')],
+    ['bar-red', createBarSprite('CONQUER.MIX/bar3red.png')],
+    ['bar-yellow', createBarSprite('CONQUER.MIX/bar3ylw.png')],
     ['coins', spriteFromName('CONQUER.MIX/creds.png')],
     ['corner', spriteFromName('CONQUER.MIX/hiscore1.png')],
     ['top', spriteFromName('CONQUER.MIX/hiscore2.png')],
@@ -27,12 +53,16 @@ class ScoreScreen extends Entity {
     //['multiplayer', spriteFromName('CONQUER.MIX/mltiplyr.png')],
   ]);
 
-  public constructor(engine: GameEngine) {
+  public constructor(engine: GameEngine, score?: GameScore) {
     super();
     this.engine = engine;
+    this.score = score;
 
-    const bkg = this.sprites.get('background-gdi') as Sprite;
+    const bkg = this.getBackground();
     this.backgroundAnimation = new Animation('background', new Vector(0, 0), bkg.frames, 1.0, false);
+    this.backgroundAnimation.once('done', () => {
+      this.counting = !!this.score;
+    });
 
     const time = this.sprites.get('time') as Sprite;
     this.timeAnimation = new Animation('time', new Vector(0, 0), time.frames, 1.0);
@@ -48,11 +78,20 @@ class ScoreScreen extends Entity {
   public onUpdate(deltaTime: number): void {
     this.backgroundAnimation.onUpdate();
     this.timeAnimation.onUpdate();
+
+    if (this.counting) {
+      this.tally++;
+      this.engine.playArchiveSfx('SOUNDS.MIX/keystrok.wav', 'gui', { block: true });
+
+      if (this.tally >= SCORE_TALLY_TICKS) {
+        this.counting = false;
+      }
+    }
   }
 
   public onRender(deltaTime: number): void {
     const ctx = this.context;
-    const background = this.sprites.get('background-gdi') as Sprite;
+    const background = this.getBackground();
     const time = this.sprites.get('time') as Sprite;
     const x = background.size.x - time.size.x;
 
@@ -69,6 +108,42 @@ class ScoreScreen extends Entity {
       new Vector(x, 0),
       ctx
     );
+
+    if (this.score && this.tally > 0) {
+      this.renderBars(this.score);
+    }
+  }
+
+  /**
+   * Bars grow relative to the largest value in each row
+   */
+  protected renderBars(score: GameScore): void {
+    for (const [y, key] of SCORE_BARS) {
+      const max = Math.max(1, ...score.houses.map(h => h[key]));
+
+      score.houses.forEach((house, index) => {
+        const bar = this.sprites.get(house.team === 'gdi' ? 'bar-yellow' : 'bar-red') as Sprite;
+        const { width, height } = bar.canvas;
+        const w = Math.round(width * this.getTally(house[key]) / max);
+
+        if (w > 0) {
+          const by = y + index * SCORE_BAR_SPACING;
+          this.context.drawImage(bar.canvas, 0, 0, w, height, SCORE_BAR_X, by, w, height);
+        }
+      });
+    }
+  }
+
+  /**
+   * Gets the currently counted up part of a value
+   */
+  public getTally(value: number): number {
+    return Math.round(value * Math.min(1, this.tally / SCORE_TALLY_TICKS));
+  }
+
+  protected getBackground(): Sprite {
+    const team = this.score ? this.score.team : 'gdi';
+    return this.sprites.get(team === 'nod' ? 'background-nod' : 'background-gdi') as Sprite;
   }
 }
 
@@ -77,12 +152,14 @@ class ScoreScreen extends Entity {
  */
 export class ScoreScene extends Scene {
   public readonly engine: GameEngine;
-  protected readonly screen: ScoreScreen;
+  public readonly screen: ScoreScreen;
+  protected readonly ui: ScoreUI;
 
-  public constructor(engine: GameEngine) {
+  public constructor(engine: GameEngine, score?: GameScore) {
     super(engine);
     this.engine = engine;
-    this.screen = new ScoreScreen(engine);
+    this.screen = new ScoreScreen(engine, score);
+    this.ui = new ScoreUI(this);
   }
 
   public toString(): string {
@@ -92,6 +169,9 @@ export class ScoreScene extends Scene {
   public async init(): Promise<void> {
     await this.screen.init();
 
+    this.ui.setDimension(this.screen.getDimension().clone().mulS(2) as Vector);
+    await this.ui.init();
+
     const playlist = this.engine.sound.getPlaylist();
     playlist.setList([{
       source: 'TRANSIT.MIX/win1.wav',
@@ -101,8 +181,24 @@ export class ScoreScene extends Scene {
     playlist.play();
   }
 
+  public onResize(): void {
+    super.onResize();
+    this.ui.onResize();
+  }
+
   public onUpdate(deltaTime: number): void {
+    const { dx, dy, bR } = getScaledDimensions(
+      this.ui.getDimension(),
+      this.engine.getScaledDimension()
+    );
+
+    this.ui.setScale({
+      offset: new Vector(dx, dy),
+      scale: bR
+    });
+
     this.screen.onUpdate(deltaTime);
+    this.ui.onUpdate(deltaTime);
 
     if (this.engine.keyboard.wasClicked('Enter')) {
       this.emit('done');
@@ -121,5 +217,7 @@ export class ScoreScene extends Scene {
     );
 
     context.drawImage(canvas, sx, sy, sw, sh, dx, dy, dw, dh);
+
+    this.ui.onRender(deltaTime, context);
   }
 }
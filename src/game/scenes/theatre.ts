@@ -6,11 +6,31 @@
 import { Box, MusicTrack, Scene } from '../../engine';
 import { GameEngine } from '../game';
 import { GameMap } from '../map';
+import { GameReplayData, GameReplayRecorder, GameReplayPlayback, REPLAY_MAX_SPEED } from '../replay';
+import { GameMapLockstep, LockstepTransport } from '../lockstep';
+import { GameMapCommand } from '../commands';
 import { TheatreUI } from '../ui/theatre';
-import { MIXMapData, MIXPlayerName, MIXTheme } from '../mix';
+import { createMinimapThumbnail } from '../ui/elements';
+import { GameSaveSlot, QUICKSAVE_SLOT } from '../storage';
+import { GameCampaign } from '../campaign';
+import { loadSaveGame } from '../save';
+import { MIXMapData, MIXPlayerName, MIXSaveGame, MIXTheme } from '../mix';
 import { cellFromPoint } from '../physics';
 import { Vector } from 'vector2d';
 
+export interface TheatreSceneMultiplayer {
+  transport: LockstepTransport;
+  players: MIXPlayerName[];
+  seed: number;
+}
+
+export interface TheatreSceneOptions {
+  replay?: GameReplayData;
+  multiplayer?: TheatreSceneMultiplayer;
+  save?: MIXSaveGame;
+  campaign?: GameCampaign;
+}
+
 /**
  * Theatre Scene
  */
@@ -20,20 +40,44 @@ export class TheatreScene extends Scene {
   public readonly ui: TheatreUI;
   public readonly viewport: Box = { x1: 0, x2: 800, y1: 0, y2: 600 };
   public readonly name: string;
+  public readonly recorder?: GameReplayRecorder;
+  public readonly playback?: GameReplayPlayback;
+  public readonly lockstep?: GameMapLockstep;
+  public readonly campaign?: GameCampaign;
+  private readonly save?: MIXSaveGame;
   private loaded: boolean = false;
 
-  public constructor(name: string, data:MIXMapData, player: MIXPlayerName, engine: GameEngine) {
+  public constructor(name: string, data: MIXMapData, player: MIXPlayerName, engine: GameEngine, options: TheatreSceneOptions = {}) {
     super(engine);
 
+    const { replay, multiplayer, campaign } = options;
+    const save = replay ? replay.save : options.save;
+    const seed = replay ? replay.seed : multiplayer ? multiplayer.seed : save ? save.seed : undefined;
+
     this.engine = engine;
     this.name = name;
-    this.map = new GameMap(this.name, data, player, this.engine as GameEngine);
+    this.save = save;
+    this.campaign = campaign;
+    this.map = new GameMap(this.name, data, player, this.engine as GameEngine, seed);
     this.ui = new TheatreUI(this);
+
+    if (multiplayer) {
+      const players = multiplayer.players.map(n => this.map.getPlayerByName(n)!);
+      this.lockstep = new GameMapLockstep(this.map, multiplayer.transport, players);
+    }
+
+    if (replay) {
+      this.playback = new GameReplayPlayback(replay, this.map);
+    } else {
+      this.recorder = new GameReplayRecorder(this.map, save);
+    }
   }
 
   public toString(): string {
     const map = this.map.toString();
-    return `Theatre\nMap: ${map}`;
+    const replay = this.playback ? `\nReplay: ${this.playback.toString()}` : '';
+    const lockstep = this.lockstep ? `\n${this.lockstep.toString()}` : '';
+    return `Theatre\nMap: ${map}${replay}${lockstep}`;
   }
 
   public async init(): Promise<void> {
@@ -54,9 +98,21 @@ export class TheatreScene extends Scene {
 
     playlist.setList(list);
 
-    await this.map.init();
+    await this.map.init(this.save);
+
+    if (this.campaign && !this.save) {
+      this.map.player.addCredits(this.campaign.getCarryOver(this.map.data.basic));
+    }
     await this.ui.init();
 
+    if (this.playback) {
+      this.playback.init();
+    }
+
+    if (this.lockstep) {
+      this.lockstep.init();
+    }
+
     this.loaded = true;
 
     playlist.play('aoi');
@@ -115,18 +171,133 @@ export class TheatreScene extends Scene {
           this.map.getSelectedEntities().forEach(e => e.setHealth(e.getHealth() - 4));
         } else if (keyboard.wasClicked('PageUp')) {
           this.map.getSelectedEntities().forEach(e => e.setHealth(e.getHealth() + 4));
+        } else if (keyboard.wasClicked('Insert')) {
+          const cell = cellFromPoint(this.map.getRealMousePosition(mouse.getVector()));
+          this.map.reinforcements.reinforce(['E1', 'E1', 'E1', 'E1', 'E1'], this.map.player, cell);
         }
       }
     }
 
+    if (!skip && this.playback) {
+      this.handlePlaybackKeys();
+    }
+
+    if (!skip && this.canSave()) {
+      if (keyboard.wasClicked('F7')) {
+        this.saveGame(QUICKSAVE_SLOT);
+      } else if (keyboard.wasClicked('F8')) {
+        this.loadGame(QUICKSAVE_SLOT);
+      }
+    }
+
     this.ui.onUpdate(deltaTime);
 
     if (!skip) {
-      this.map.onUpdate(deltaTime);
+      const ticks = this.playback ? this.playback.getTicks() : 1;
+      for (let i = 0; i < ticks; i++) {
+        if (this.lockstep && !this.lockstep.canAdvance()) {
+          break;
+        }
+
+        this.map.onUpdate(deltaTime);
+      }
+
       this.updateSoundContext();
     }
   }
 
+  protected handlePlaybackKeys(): void {
+    const { keyboard } = this.engine;
+    const playback = this.playback as GameReplayPlayback;
+
+    if (keyboard.wasClicked('space')) {
+      playback.togglePause();
+    } else if (keyboard.wasClicked('v')) {
+      playback.nextViewPlayer();
+    } else {
+      for (let i = 1; i <= REPLAY_MAX_SPEED; i++) {
+        if (keyboard.wasClicked(String(i))) {
+          playback.setSpeed(i);
+          break;
+        }
+      }
+    }
+  }
+
+  public onDestroy(): void {
+    if (this.lockstep) {
+      this.lockstep.destroy();
+    }
+
+    this.map.destroy();
+  }
+
+  /**
+   * Issues an order for the session player
+   */
+  public dispatch(command: GameMapCommand): void {
+    if (this.playback) {
+      return;
+    } else if (this.lockstep) {
+      this.lockstep.dispatch(command);
+    } else {
+      this.map.commands.dispatch(command);
+    }
+  }
+
+  /**
+   * Saves the mission to a storage slot
+   */
+  public async saveGame(slot: string): Promise<GameSaveSlot | undefined> {
+    try {
+      const save = this.map.toJson();
+      if (this.campaign) {
+        save.campaign = this.campaign.toJson();
+      }
+
+      const thumbnail = createMinimapThumbnail(this.map);
+      const result = await this.engine.saves.save(slot, save, thumbnail);
+      console.debug('TheatreScene::saveGame()', slot);
+      return result;
+    } catch (e) {
+      console.error('TheatreScene::saveGame()', 'Failed to save game', slot, e);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Loads the mission from a storage slot into a new scene
+   */
+  public async loadGame(slot: string): Promise<boolean> {
+    try {
+      const data = await this.engine.saves.load(slot);
+      if (!data) {
+        console.warn('TheatreScene::loadGame()', 'Empty slot', slot);
+        return false;
+      }
+
+      const save = loadSaveGame(data);
+      await this.engine.pushSaveGameScene(save);
+      return true;
+    } catch (e) {
+      console.error('TheatreScene::loadGame()', 'Failed to load game', slot, e);
+    }
+
+    return false;
+  }
+
+  /**
+   * Replays and multiplayer sessions can not be saved
+   */
+  public canSave(): boolean {
+    return !this.playback && !this.lockstep;
+  }
+
+  public isReplay(): boolean {
+    return !!this.playback;
+  }
+
   public onRender(deltaTime: number): void {
     if (this.loaded) {
       const context = this.engine.getContext();
@@ -750,6 +750,10 @@ export const spriteMap: any[] = [
   ['CONQUER.MIX/delphi.png', 50, 39, 375, [26, 16, 16, 16]],
   ['CONQUER.MIX/chan.png', 50, 39, 375, [26, 16, 16, 16]],
 
+  // Aircraft (frame size comes from the image)
+  ['CONQUER.MIX/a10.png', 0, 0, 32],
+  ['CONQUER.MIX/tran.png', 0, 0, 36],
+
   // Units
   ['CONQUER.MIX/htnk.png', 48, 48, 64],
   ['CONQUER.MIX/mtnk.png', 36, 36, 64],
@@ -0,0 +1,141 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { GameMap } from './map';
+import { GameEntity } from './entity';
+import { Player } from './player';
+import { MIXPlayerName, MIXTeamName, MIXSaveGameStatistics } from './mix';
+
+export type GamePlayerStatistics = MIXSaveGameStatistics;
+
+export interface GameScoreHouse extends GamePlayerStatistics {
+  team: MIXTeamName;
+}
+
+export interface GameScore {
+  player: MIXPlayerName;
+  team: MIXTeamName;
+  time: number; // Seconds
+  leadership: number; // Percentage
+  credits: number;
+  houses: GameScoreHouse[];
+}
+
+const createStatistics = (player: MIXPlayerName): GamePlayerStatistics => ({
+  player,
+  unitsBuilt: 0,
+  structuresBuilt: 0,
+  unitsLost: 0,
+  structuresLost: 0,
+  unitsKilled: 0,
+  structuresKilled: 0,
+  harvested: 0
+});
+
+/**
+ * Per-house statistics collected during play for the score screen
+ */
+export class GameMapStatistics {
+  private readonly map: GameMap;
+  private players: Map<MIXPlayerName, GamePlayerStatistics> = new Map();
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  public toJson(): MIXSaveGameStatistics[] {
+    return Array.from(this.players.values()).map(s => ({ ...s }));
+  }
+
+  public restore(data: MIXSaveGameStatistics[]): void {
+    this.players = new Map(data.map((s): [MIXPlayerName, GamePlayerStatistics] => [s.player, { ...s }]));
+  }
+
+  public onEntityBuilt(entity: GameEntity): void {
+    if (entity.player) {
+      const stats = this.getPlayer(entity.player);
+      if (entity.isStructure()) {
+        stats.structuresBuilt++;
+      } else if (entity.isUnit() || entity.isInfantry()) {
+        stats.unitsBuilt++;
+      }
+    }
+  }
+
+  public onEntityDestroyed(entity: GameEntity, killer?: GameEntity): void {
+    const structure = entity.isStructure();
+    if (!structure && !entity.isUnit() && !entity.isInfantry()) {
+      return;
+    }
+
+    if (entity.player) {
+      const stats = this.getPlayer(entity.player);
+      if (structure) {
+        stats.structuresLost++;
+      } else {
+        stats.unitsLost++;
+      }
+    }
+
+    if (killer && killer.player && killer.player !== entity.player) {
+      const stats = this.getPlayer(killer.player);
+      if (structure) {
+        stats.structuresKilled++;
+      } else {
+        stats.unitsKilled++;
+      }
+    }
+  }
+
+  public onHarvested(player: Player, credits: number): void {
+    this.getPlayer(player).harvested += credits;
+  }
+
+  public getPlayer(player: Player): GamePlayerStatistics {
+    const name = player.getName();
+    if (!this.players.has(name)) {
+      this.players.set(name, createStatistics(name));
+    }
+
+    return this.players.get(name)!;
+  }
+
+  /**
+   * Gets elapsed play time in seconds
+   */
+  public getElapsedTime(): number {
+    return Math.floor(this.map.getTicks() / this.map.getTicksPerMinute() * 60);
+  }
+
+  /**
+   * Gets the ratio of kills to losses as a percentage
+   */
+  public getLeadership(player: Player): number {
+    const stats = this.getPlayer(player);
+    const kills = stats.unitsKilled + stats.structuresKilled;
+    const losses = stats.unitsLost + stats.structuresLost;
+
+    return kills + losses > 0 ? Math.round(kills / (kills + losses) * 100) : 100;
+  }
+
+  /**
+   * Gets the score for the session player against the other houses
+   */
+  public getScore(): GameScore {
+    const player = this.map.player;
+    const houses = this.map.getPlayers()
+      .filter(p => p === player || this.players.has(p.getName()))
+      .map((p): GameScoreHouse => ({ ...this.getPlayer(p), team: p.getTeam() }));
+
+    return {
+      player: player.getName(),
+      team: player.getTeam(),
+      time: this.getElapsedTime(),
+      leadership: this.getLeadership(player),
+      credits: player.getCredits(),
+      houses
+    };
+  }
+}
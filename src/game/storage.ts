@@ -0,0 +1,115 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { MIXSaveGame, MIXSaveGameCampaign, MIXPlayerName } from './mix';
+
+export const SAVE_SLOT_COUNT = 10;
+export const QUICKSAVE_SLOT = 'quicksave';
+
+const STORAGE_PREFIX = 'cncjs-save';
+
+export interface GameSaveSlot {
+  id: string;
+  name: string;
+  player: MIXPlayerName;
+  timestamp: number;
+  thumbnail?: string;
+}
+
+/**
+ * Save game slots and campaign progress persisted in browser storage.
+ * The slot list is stored separately so that listing does not parse every save.
+ */
+export class GameSaveStorage {
+  private readonly storage?: Storage;
+
+  public constructor(storage?: Storage) {
+    this.storage = storage || (typeof localStorage !== 'undefined' ? localStorage : undefined);
+  }
+
+  /**
+   * Gets all slot ids in display order
+   */
+  public getSlotIds(): string[] {
+    const ids = Array.from({ length: SAVE_SLOT_COUNT }, (v, i) => `slot-${i + 1}`);
+    return [QUICKSAVE_SLOT, ...ids];
+  }
+
+  public async list(): Promise<GameSaveSlot[]> {
+    if (!this.storage) {
+      return [];
+    }
+
+    try {
+      const str = this.storage.getItem(`${STORAGE_PREFIX}-slots`);
+      return str ? JSON.parse(str) : [];
+    } catch (e) {
+      console.warn('GameSaveStorage::list()', 'Corrupt slot list', e);
+    }
+
+    return [];
+  }
+
+  public async get(id: string): Promise<GameSaveSlot | undefined> {
+    const slots = await this.list();
+    return slots.find(s => s.id === id);
+  }
+
+  public async load(id: string): Promise<MIXSaveGame | undefined> {
+    const str = this.storage ? this.storage.getItem(`${STORAGE_PREFIX}-${id}`) : null;
+    return str ? JSON.parse(str) : undefined;
+  }
+
+  /**
+   * Writes a save to a slot, overwriting any existing save
+   */
+  public async save(id: string, save: MIXSaveGame, thumbnail?: string): Promise<GameSaveSlot> {
+    if (!this.storage) {
+      throw new Error('No storage available');
+    }
+
+    const slot: GameSaveSlot = {
+      id,
+      name: save.name,
+      player: save.player,
+      timestamp: Date.now(),
+      thumbnail
+    };
+
+    const slots = (await this.list()).filter(s => s.id !== id);
+    this.storage.setItem(`${STORAGE_PREFIX}-${id}`, JSON.stringify(save));
+    this.storage.setItem(`${STORAGE_PREFIX}-slots`, JSON.stringify([...slots, slot]));
+
+    return slot;
+  }
+
+  public async remove(id: string): Promise<void> {
+    if (this.storage) {
+      const slots = (await this.list()).filter(s => s.id !== id);
+      this.storage.removeItem(`${STORAGE_PREFIX}-${id}`);
+      this.storage.setItem(`${STORAGE_PREFIX}-slots`, JSON.stringify(slots));
+    }
+  }
+
+  /**
+   * Gets the campaign in progress
+   */
+  public async loadCampaign(): Promise<MIXSaveGameCampaign | undefined> {
+    try {
+      const str = this.storage ? this.storage.getItem(`${STORAGE_PREFIX}-campaign`) : null;
+      return str ? JSON.parse(str) : undefined;
+    } catch (e) {
+      console.warn('GameSaveStorage::loadCampaign()', 'Corrupt campaign', e);
+    }
+
+    return undefined;
+  }
+
+  public async saveCampaign(campaign: MIXSaveGameCampaign): Promise<void> {
+    if (this.storage) {
+      this.storage.setItem(`${STORAGE_PREFIX}-campaign`, JSON.stringify(campaign));
+    }
+  }
+}
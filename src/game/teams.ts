@@ -0,0 +1,369 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { MIXMapTeamType, MIXMapTeamTypeAction, MIXPlayerName, MIXSaveGameTeam } from './mix';
+import { GameEntity } from './entity';
+import { GameMap } from './map';
+import { Player } from './player';
+import { Vector } from 'vector2d';
+
+/**
+ * Map Team
+ */
+export class GameMapTeam {
+  public readonly teamType: MIXMapTeamType;
+  public readonly player: Player;
+  private readonly map: GameMap;
+  private members: GameEntity[] = [];
+  private actionIndex: number = 0;
+  private actionStarted: boolean = false;
+  private actionTick: number = 0;
+  private target?: GameEntity;
+  private disbanded: boolean = false;
+
+  public constructor(teamType: MIXMapTeamType, player: Player, map: GameMap) {
+    this.teamType = teamType;
+    this.player = player;
+    this.map = map;
+  }
+
+  public toString(): string {
+    const action = this.getCurrentAction();
+    const current = action ? `${action.name}:${action.arg}` : '<done>';
+    return `${this.teamType.name} ${this.player.getName()} ${this.members.length} members @ ${this.actionIndex} ${current}`;
+  }
+
+  public toJson(): MIXSaveGameTeam {
+    return {
+      name: this.teamType.name,
+      player: this.player.getName(),
+      members: this.members.map(e => e.id),
+      actionIndex: this.actionIndex,
+      actionStarted: this.actionStarted,
+      actionTick: this.actionTick,
+      target: this.target ? this.target.id : undefined
+    };
+  }
+
+  public restore(data: MIXSaveGameTeam): void {
+    this.members = data.members
+      .map(id => this.map.getEntityById(id))
+      .filter(e => !!e) as GameEntity[];
+
+    this.actionIndex = data.actionIndex;
+    this.actionStarted = data.actionStarted;
+    this.actionTick = data.actionTick;
+    this.target = data.target !== undefined ? this.map.getEntityById(data.target) : undefined;
+  }
+
+  /**
+   * Walks the team script. Called periodically by the team manager.
+   */
+  public process(): void {
+    if (this.disbanded) {
+      return;
+    }
+
+    this.members = this.members.filter(e => !e.isDestroyed());
+    if (this.members.length === 0) {
+      this.disbanded = true;
+      return;
+    }
+
+    if (this.teamType.replaceTeam) {
+      this.map.teams.recruit(this);
+    }
+
+    const action = this.getCurrentAction();
+    if (!action) {
+      return;
+    }
+
+    if (!this.actionStarted) {
+      console.debug('GameMapTeam::process()', this.toString());
+      this.actionStarted = true;
+      this.actionTick = this.map.getTicks();
+      this.startAction(action);
+    }
+
+    if (this.updateAction(action)) {
+      this.nextAction();
+    }
+  }
+
+  public addMember(entity: GameEntity): void {
+    if (this.members.indexOf(entity) === -1) {
+      this.members.push(entity);
+
+      const action = this.getCurrentAction();
+      if (action && this.actionStarted) {
+        this.startAction(action, [entity]);
+      }
+    }
+  }
+
+  /**
+   * Breaks up the team. The members are left alive.
+   */
+  public disband(): void {
+    this.members = [];
+    this.disbanded = true;
+  }
+
+  protected startAction(action: MIXMapTeamTypeAction, members: GameEntity[] = this.members): void {
+    switch (action.name) {
+      case 'Move':
+      case 'Patrol':
+        const waypoint = this.getWaypoint(action.arg);
+        if (waypoint) {
+          this.map.formation.move(members, waypoint);
+        }
+        break;
+
+      case 'Hunt':
+      case 'Rampage':
+        members.forEach(e => e.hunt());
+        break;
+
+      case 'Attack Base':
+      case 'Attack Units':
+      case 'Attack Civil.':
+        this.target = undefined;
+        break;
+    }
+  }
+
+  protected updateAction(action: MIXMapTeamTypeAction): boolean {
+    switch (action.name) {
+      case 'Move':
+      case 'Patrol':
+        const waypoint = this.getWaypoint(action.arg);
+        return !waypoint || this.members.every(e => !e.isMoving());
+
+      case 'Attack Base':
+        return !this.updateTarget((e: GameEntity) => e.isStructure() && !e.isWall());
+
+      case 'Attack Units':
+        return !this.updateTarget((e: GameEntity) => e.isUnit() || e.isInfantry());
+
+      case 'Attack Civil.':
+        return !this.updateTarget((e: GameEntity) => e.isCivilian());
+
+      case 'Guard':
+        const ticks = ((action.arg || 0) / 10) * this.map.getTicksPerMinute();
+        return (this.map.getTicks() - this.actionTick) >= ticks;
+
+      case 'Loop':
+        this.actionIndex = Math.max(0, (action.arg || 0)) - 1;
+        return true;
+
+      case 'Unload':
+        const transports = this.members.filter(e => this.map.reinforcements.hasCargo(e));
+        this.members = this.members.filter(e => transports.indexOf(e) === -1);
+        transports.forEach(e => this.map.reinforcements.unload(e));
+        return true;
+
+      case 'Hunt':
+      case 'Rampage':
+        return false;
+    }
+
+    console.warn('GameMapTeam::updateAction()', 'Unsupported action', action.name);
+    return true;
+  }
+
+  protected updateTarget(test: Function): boolean {
+    if (!this.target || this.target.isDestroyed()) {
+      this.target = this.map.getClosestEnemy(this.members[0], (e: GameEntity) => e.isSelectable() && test(e));
+
+      if (this.target) {
+        this.members
+          .filter(e => e.canAttack())
+          .forEach(e => e.attack(this.target!));
+      }
+    }
+
+    return !!this.target;
+  }
+
+  protected nextAction(): void {
+    this.actionIndex++;
+    this.actionStarted = false;
+  }
+
+  protected getWaypoint(id: number): Vector | undefined {
+    const waypoint = this.map.data.waypoints.find(w => w.id === id);
+    return waypoint ? waypoint.cell : undefined;
+  }
+
+  public getDestination(): Vector | undefined {
+    const move = this.teamType.actions.find(a => a.name === 'Move');
+    return move ? this.getWaypoint(move.arg) : undefined;
+  }
+
+  public getCurrentAction(): MIXMapTeamTypeAction | undefined {
+    return this.teamType.actions[this.actionIndex];
+  }
+
+  public getMembers(): GameEntity[] {
+    return this.members;
+  }
+
+  public getMissingUnits(): string[] {
+    const missing: string[] = [];
+
+    for (let unit of this.teamType.units) {
+      const count = this.members.filter(e => e.getName() === unit.name).length;
+      for (let i = count; i < unit.count; i++) {
+        missing.push(unit.name);
+      }
+    }
+
+    return missing;
+  }
+
+  public isMember(entity: GameEntity): boolean {
+    return this.members.indexOf(entity) !== -1;
+  }
+
+  public isDisbanded(): boolean {
+    return this.disbanded;
+  }
+}
+
+/**
+ * Map Team Manager
+ */
+export class GameMapTeamManager {
+  private readonly map: GameMap;
+  private teams: GameMapTeam[] = [];
+
+  public constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  public toString(): string {
+    return this.teams.map(t => t.toString()).join('\n');
+  }
+
+  public toJson(): MIXSaveGameTeam[] {
+    return this.teams.map(team => team.toJson());
+  }
+
+  /**
+   * Re-creates teams from a save. Members are restored without re-running their current action.
+   */
+  public restore(teams: MIXSaveGameTeam[]): void {
+    this.teams = [];
+
+    for (let data of teams) {
+      const teamType = this.getTeamType(data.name);
+      const player = this.map.getPlayerByName(data.player);
+
+      if (teamType && player) {
+        const team = new GameMapTeam(teamType, player, this.map);
+        team.restore(data);
+        this.teams.push(team);
+      } else {
+        console.warn('GameMapTeamManager::restore()', 'Invalid team', data.name, data.player);
+      }
+    }
+  }
+
+  public process(): void {
+    this.teams.forEach(team => team.process());
+    this.teams = this.teams.filter(team => !team.isDisbanded());
+
+    this.map.data.teamTypes
+      .filter(teamType => teamType.autocreate)
+      .forEach(teamType => {
+        const player = this.map.getPlayerByName(teamType.teamName as MIXPlayerName);
+        if (player && player.isAutocreating() && !this.getTeams(teamType.name).length) {
+          this.create(teamType.name, player);
+        }
+      });
+  }
+
+  /**
+   * Creates a new team. Reinforced teams gets spawned on the map, otherwise
+   * idle units are recruited from the house.
+   */
+  public create(name: string, player: Player, reinforce: boolean = false): GameMapTeam | undefined {
+    const teamType = this.getTeamType(name);
+    if (!teamType) {
+      console.warn('GameMapTeamManager::create()', 'Invalid team', name);
+      return undefined;
+    }
+
+    if (teamType.forceReplaceTeam) {
+      this.destroy(teamType.name);
+    }
+
+    const team = new GameMapTeam(teamType, player, this.map);
+    this.teams.push(team);
+
+    if (reinforce) {
+      this.map.reinforcements.reinforce(team.getMissingUnits(), player, team.getDestination(), (entities: GameEntity[]) => {
+        entities.forEach(e => team.addMember(e));
+      });
+    } else {
+      this.recruit(team);
+    }
+
+    if (!team.getMembers().length) {
+      team.disband();
+      this.teams.splice(this.teams.indexOf(team), 1);
+      return undefined;
+    }
+
+    console.debug('GameMapTeamManager::create()', team.toString());
+
+    return team;
+  }
+
+  /**
+   * Fills up a team with idle units of the same house
+   */
+  public recruit(team: GameMapTeam): void {
+    const missing = team.getMissingUnits();
+    if (!missing.length) {
+      return;
+    }
+
+    const available = this.map.getEntities()
+      .filter(e => e.player === team.player && e.isMovable() && !e.isDestroyed())
+      .filter(e => !this.isMember(e));
+
+    for (let name of missing) {
+      const found = available.find(e => e.getName() === name && !team.isMember(e));
+      if (found) {
+        team.addMember(found);
+      }
+    }
+  }
+
+  public destroy(name: string): void {
+    this.getTeams(name).forEach(team => team.disband());
+    this.teams = this.teams.filter(team => !team.isDisbanded());
+  }
+
+  public isMember(entity: GameEntity): boolean {
+    return this.teams.some(t => t.isMember(entity));
+  }
+
+  public getTeamType(name: string): MIXMapTeamType | undefined {
+    const n = name.toLowerCase();
+    return this.map.data.teamTypes.find(t => t.name.toLowerCase() === n);
+  }
+
+  public getTeams(name?: string): GameMapTeam[] {
+    if (name) {
+      const n = name.toLowerCase();
+      return this.teams.filter(t => t.teamType.name.toLowerCase() === n);
+    }
+
+    return this.teams;
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { MIXMapTrigger, MIXMapTriggerEvent, MIXMapTriggerRepeat, MIXSaveGameTrigger, structureTypes } from './mix';
+import { GameEntity } from './entity';
+import { GameMap } from './map';
+import { Player } from './player';
+
+/**
+ * Events that are sprung by the objects the trigger is attached to
+ */
+const objectEvents: MIXMapTriggerEvent[] = [
+  'Player Enters',
+  'Discovered',
+  'Attacked',
+  'Destroyed',
+  'Any'
+];
+
+/**
+ * Special weapons handed out by trigger actions
+ */
+const specialWeaponMap: { [Key: string]: string } = {
+  'Airstrike': 'BOMB',
+  'Nuclear Missile': 'ATOM',
+  'Ion Cannon': 'ION'
+};
+
+/**
+ * Map Triggers
+ */
+export class GameMapTrigger {
+  private readonly trigger: MIXMapTrigger;
+  private readonly map: GameMap;
+  private readonly sprung: Set<GameEntity> = new Set();
+  private done: boolean = false;
+  private startTick: number = 0;
+
+  public constructor(trigger: MIXMapTrigger, map: GameMap) {
+    this.trigger = trigger;
+    this.map = map;
+    this.startTick = map.getTicks();
+  }
+
+  public toString(): string {
+    return `${this.trigger.name} ${this.trigger.condition}->${this.trigger.action} (${this.trigger.playerName})${this.done ? ' done' : ''}`;
+  }
+
+  public toJson(): MIXSaveGameTrigger {
+    return {
+      name: this.trigger.name,
+      done: this.done,
+      startTick: this.startTick,
+      sprung: Array.from(this.sprung).map(e => e.id)
+    };
+  }
+
+  public restore(data: MIXSaveGameTrigger): void {
+    this.done = data.done;
+    this.startTick = data.startTick;
+    this.sprung.clear();
+
+    data.sprung
+      .map(id => this.map.getEntityById(id))
+      .forEach(e => e && this.sprung.add(e));
+  }
+
+  /**
+   * Checks house and time based events. Called periodically by the map.
+   */
+  public process(): void {
+    if (this.done) {
+      return;
+    }
+
+    if (this.trigger.condition === 'Discovered' || this.trigger.condition === 'Any') {
+      this.getAttachedEntities()
+        .filter(e => !this.sprung.has(e) && this.isDiscovered(e))
+        .forEach(e => this.notify('Discovered', e));
+    } else if (objectEvents.indexOf(this.trigger.condition) === -1) {
+      if (this.checkCondition()) {
+        this.spring(this.trigger.condition);
+      }
+    }
+  }
+
+  /**
+   * Notifies the trigger about an event on an object
+   */
+  public notify(event: MIXMapTriggerEvent, entity?: GameEntity, source?: GameEntity): void {
+    if (this.done) {
+      return;
+    }
+
+    if (this.trigger.condition !== event && this.trigger.condition !== 'Any') {
+      return;
+    }
+
+    if (event === 'Player Enters') {
+      const player = source ? source.player : undefined;
+      if (!player || player.getName() !== this.trigger.playerName) {
+        return;
+      }
+    }
+
+    if (entity) {
+      this.sprung.add(entity);
+
+      if (this.trigger.repeat === MIXMapTriggerRepeat.Once) {
+        const waiting = this.getAttachedEntities()
+          .some(e => !this.sprung.has(e) && !e.isDestroyed());
+
+        if (waiting) {
+          return;
+        }
+      }
+    }
+
+    this.spring(event);
+  }
+
+  /**
+   * Marks the trigger as destroyed so it never fires again
+   */
+  public destroy(): void {
+    this.done = true;
+  }
+
+  protected spring(event: MIXMapTriggerEvent): void {
+    if (this.trigger.action === 'Win' && !this.map.isWinAllowed()) {
+      return;
+    }
+
+    console.debug('GameMapTrigger::spring()', this.toString(), event);
+
+    if (this.trigger.repeat === MIXMapTriggerRepeat.Always) {
+      this.sprung.clear();
+      this.startTick = this.map.getTicks();
+    } else {
+      this.done = true;
+    }
+
+    this.execute(event);
+  }
+
+  protected checkCondition(): boolean {
+    const player = this.getPlayer();
+    const counter = this.trigger.counter;
+
+    if (this.trigger.condition === 'Time') {
+      const ticks = (counter / 10) * this.map.getTicksPerMinute();
+      return (this.map.getTicks() - this.startTick) >= ticks;
+    }
+
+    if (!player) {
+      return false;
+    }
+
+    const entities = this.map.getEntities()
+      .filter(e => e.player === player && !e.isDestroyed());
+
+    const units = entities.filter(e => e.isUnit() || e.isInfantry());
+    const structures = entities.filter(e => e.isStructure() && !e.isWall());
+
+    switch (this.trigger.condition) {
+      case 'House Discov.':
+        return entities.some(e => this.isDiscovered(e));
+      case 'Units Destr.':
+        return units.length === 0;
+      case 'Bldgs Destr.':
+        return structures.length === 0;
+      case 'All Destr.':
+        return units.length === 0 && structures.length === 0;
+      case 'Credits':
+        return player.getCredits() >= counter;
+      case '# Bldgs Dstr.':
+        return player.getStructuresLost() >= counter;
+      case '# Units Dstr.':
+        return player.getUnitsLost() >= counter;
+      case 'No Factories':
+        return !player.hasFactory();
+      case 'Civ. Evac.':
+        return player.getEvacuated() > 0;
+      case 'Built It':
+        const name = structureTypes[counter];
+        return !!name && player.hasBuilt(name);
+    }
+
+    return false;
+  }
+
+  protected execute(event: MIXMapTriggerEvent): void {
+    const player = this.getPlayer();
+    const teamType = this.trigger.teamType;
+
+    switch (this.trigger.action) {
+      case 'Win':
+        this.map.engine.onTheatreWon();
+        break;
+
+      case 'Lose':
+        this.map.engine.onTheatreLost();
+        break;
+
+      case 'Cap=Win/Des=Lose':
+        if (event === 'Destroyed') {
+          this.map.engine.onTheatreLost();
+        } else {
+          this.map.engine.onTheatreWon();
+        }
+        break;
+
+      case 'Production':
+        if (player) {
+          player.setProduction(true);
+        }
+        break;
+
+      case 'Autocreate':
+        if (player) {
+          player.setAutocreate(true);
+        }
+        break;
+
+      case 'Create Team':
+        if (player) {
+          this.map.teams.create(teamType, player);
+        }
+        break;
+
+      case 'Reinforce.':
+        if (player) {
+          this.map.teams.create(teamType, player, true);
+        }
+        break;
+
+      case 'Dstry Teams':
+        this.map.teams.destroy(teamType);
+        break;
+
+      case 'All to Hunt':
+        this.map.getEntities()
+          .filter(e => e.player === player && e.isMovable() && e.canAttack())
+          .forEach(e => e.hunt());
+        break;
+
+      case 'DZ at \'Z\'':
+        const flare = this.map.data.waypoints.find(w => w.name === 'flare');
+        if (flare && player) {
+          const rules = this.map.engine.mix.getGeneralRules();
+          this.map.visibility.revealAt(player, flare.cell, rules.DropZoneRadius);
+        }
+        break;
+
+      case 'Airstrike':
+      case 'Nuclear Missile':
+      case 'Ion Cannon':
+        if (player) {
+          this.fireSpecialWeapon(player, specialWeaponMap[this.trigger.action]);
+        }
+        break;
+
+      case 'Dstry Trig \'XXXX\'':
+        this.map.destroyTrigger('xxxx');
+        break;
+
+      case 'Dstry Trig \'YYYY\'':
+        this.map.destroyTrigger('yyyy');
+        break;
+
+      case 'Dstry Trig \'ZZZZ\'':
+        this.map.destroyTrigger('zzzz');
+        break;
+
+      case 'Allow Win':
+      case 'None':
+        break;
+
+      default:
+        console.warn('GameMapTrigger::execute()', 'Unknown action', this.trigger.action);
+        break;
+    }
+  }
+
+  protected fireSpecialWeapon(player: Player, name: string): void {
+    if (player.isHumanPlayer()) {
+      player.addSpecialWeapon(name);
+      return;
+    }
+
+    const target = this.map.getEntities()
+      .find(e => e.isStructure() && !e.isDestroyed() && !!e.player && player.isEnemy(e.player));
+
+    if (!target) {
+      return;
+    }
+
+    if (name === 'ION') {
+      this.map.factory.load('effect', { name: 'IONSFX', cell: target.getCell(), player: player.getId() });
+    } else if (name === 'ATOM') {
+      this.map.factory.load('effect', { name: 'ATOMSFX', cell: target.getCell(), player: player.getId() });
+    } else if (name === 'BOMB') {
+      this.map.reinforcements.airstrike(player, target.getCell());
+    }
+  }
+
+  /**
+   * Discovered means seen by a human player other than the owner
+   */
+  protected isDiscovered(entity: GameEntity): boolean {
+    return this.map.getPlayers()
+      .some(p => p.isHumanPlayer() && p !== entity.player && this.map.visibility.isRevealedAt(p, entity.getCell()));
+  }
+
+  protected getAttachedEntities(): GameEntity[] {
+    return this.map.getEntities()
+      .filter(e => e.getTriggerName() === this.trigger.name);
+  }
+
+  protected getPlayer(): Player | undefined {
+    return this.map.getPlayerByName(this.trigger.playerName);
+  }
+
+  public getName(): string {
+    return this.trigger.name;
+  }
+
+  public isBlockingWin(): boolean {
+    return this.trigger.action === 'Allow Win' && !this.done;
+  }
+
+  public isDone(): boolean {
+    return this.done;
+  }
+}
@@ -4,9 +4,10 @@
  * @license MIT
  */
 
-import { MIXObject } from '../mix';
-import { GameEngine } from '../game';
+import { MIXObject, MIXSaveGameConstruction } from '../mix';
+import { GameMapEngine } from '../game';
 import { Player } from '../player';
+import { SoundEffect } from '../../engine';
 import { EventEmitter } from 'eventemitter3';
 
 export type ConstructionType = 'structure' | 'unit' | 'aircraft' | 'infantry'; // FIXME: Should be in MIX
@@ -25,13 +26,13 @@ export interface ConstructionObject {
 }
 
 export class ConstructionQueue extends EventEmitter {
-  protected readonly engine: GameEngine;
+  protected readonly engine: GameMapEngine;
   protected readonly player: Player;
   protected objects: ConstructionObject[] = [];
   protected techLevel: number = -1;
   protected buildLevel: number = -1;
 
-  public constructor(names: string[], player: Player, engine: GameEngine) {
+  public constructor(names: string[], player: Player, engine: GameMapEngine) {
     super();
     this.player = player;
     this.engine = engine;
@@ -52,6 +53,7 @@ export class ConstructionQueue extends EventEmitter {
       });
 
     this.player.on('entities-updated', () => this.updateAvailable());
+    this.player.on('specials-updated', () => this.updateAvailable());
   }
 
   public onUpdate(deltaTime: number) {
@@ -68,17 +70,17 @@ export class ConstructionQueue extends EventEmitter {
           item.state = 'ready';
           this.emit('ready', item);
           if (['unit', 'infantry'].indexOf(item.type) !== -1) {
-            this.engine.playArchiveSfx('SPEECH.MIX/unitredy.wav', 'gui', {}, 'eva');
+            this.playSfx('SPEECH.MIX/unitredy.wav', 'gui', {}, 'eva');
             this.emit('spawn', item);
           } else {
             this.emit('ready', item);
-            this.engine.playArchiveSfx('SPEECH.MIX/constru1.wav', 'gui', {}, 'eva');
+            this.playSfx('SPEECH.MIX/constru1.wav', 'gui', {}, 'eva');
           }
         } else {
           // FIXME: Rule
           item.progress = Math.min(item.cost, item.progress + 1.0);
           this.emit('tick', item);;
-          this.engine.playArchiveSfx('SOUNDS.MIX/clock1.wav', 'gui', { volume: 0.2, block: true });
+          this.playSfx('SOUNDS.MIX/clock1.wav', 'gui', { volume: 0.2, block: true });
           this.player.subScredits(1.0); // FIXME
         }
       }
@@ -109,6 +111,8 @@ export class ConstructionQueue extends EventEmitter {
         } else if (o.available && o.type === 'structure') {
           o.available = this.player.canConstructStructure();
         }
+      } else {
+        o.available = this.player.hasSpecialWeapon(o.name);
       }
     }
   }
@@ -124,10 +128,10 @@ export class ConstructionQueue extends EventEmitter {
     if (item.available) {
       if (item.state !== 'constructing') {
         this.emit('construct', item);
-        this.engine.playArchiveSfx('SPEECH.MIX/bldging1.wav', 'gui', {}, 'eva');
+        this.playSfx('SPEECH.MIX/bldging1.wav', 'gui', {}, 'eva');
         item.state = 'constructing';
       } else {
-        this.engine.playArchiveSfx('SPEECH.MIX/bldg1.wav', 'gui', {}, 'eva');
+        this.playSfx('SPEECH.MIX/bldg1.wav', 'gui', {}, 'eva');
       }
     }
   }
@@ -136,7 +140,7 @@ export class ConstructionQueue extends EventEmitter {
     if (item.available) {
       if (item.state !== undefined) {
         this.emit('cancel', item);
-        this.engine.playArchiveSfx('SPEECH.MIX/cancel1.wav', 'gui', {}, 'eva');
+        this.playSfx('SPEECH.MIX/cancel1.wav', 'gui', {}, 'eva');
         this.player.addCredits(item.progress);
 
         item.state = undefined;
@@ -149,17 +153,50 @@ export class ConstructionQueue extends EventEmitter {
     if (item.available) {
       if (item.state === 'constructing') {
         this.emit('hold', item);
-        this.engine.playArchiveSfx('SPEECH.MIX/onhold1.wav', 'gui', {}, 'eva');
+        this.playSfx('SPEECH.MIX/onhold1.wav', 'gui', {}, 'eva');
 
         item.state = 'hold';
       }
     }
   }
 
+  protected playSfx(source: string, node: string, sound: Partial<SoundEffect> = {}, queue?: string): void {
+    if (this.player.isSessionPlayer()) {
+      this.engine.playArchiveSfx(source, node, sound, queue);
+    }
+  }
+
+  /**
+   * Gets items that are in progress
+   */
+  public toJson(): MIXSaveGameConstruction[] {
+    return this.objects
+      .filter(o => o.state !== undefined)
+      .map(o => ({ name: o.name, state: o.state as string, progress: o.progress }));
+  }
+
+  public restore(items: MIXSaveGameConstruction[]): void {
+    for (let item of items) {
+      const o = this.objects.find(o => o.name === item.name);
+      if (o) {
+        o.state = item.state as ConstructionState;
+        o.progress = item.progress;
+      }
+    }
+  }
+
   public getAvailable(): ConstructionObject[] {
     return this.objects.filter(o => o.available);
   }
 
+  public getAvailableByName(name: string): ConstructionObject | undefined {
+    return this.getAvailable().find(o => o.name === name);
+  }
+
+  public getPlayer(): Player {
+    return this.player;
+  }
+
   public setTechLevel(l: number): void {
     this.techLevel = l;
   }
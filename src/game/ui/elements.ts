@@ -4,7 +4,7 @@
  * @license MIT
  */
 
-import { Sprite, UIScene, UIEntity, MouseButton } from '../../engine';
+import { Sprite, UIScene, UIEntity, MouseButton, createCanvas } from '../../engine';
 import { GameMap } from '../map';
 import { GameEngine } from '../game';
 import { TheatreUI } from './theatre';
@@ -52,6 +52,8 @@ export const LISTVIEW_PADDING = 4;
 export const MINIMAP_WIDTH = 156;
 export const MINIMAP_HEIGHT = 138;
 export const MINIMAP_OFFSET = 4;
+export const SAVE_THUMBNAIL_WIDTH = 128;
+export const SAVE_THUMBNAIL_HEIGHT = 96;
 export const CONSTRUCTION_HEIGHT = THUMB_HEIGHT * THUMB_COUNT;
 
 /**
@@ -441,6 +443,8 @@ export class UIListView extends GameUIEntity {
       const off = Math.floor(Math.max(this.items.length - 7, 1) * value);
       this.list.setOffset(off);
     });
+
+    this.list.on('change', () => this.emit('change', this.list.current));
   }
 
   public onRender(deltaTime: number, ctx: CanvasRenderingContext2D): void {
@@ -822,10 +826,6 @@ export class UIConstruction extends GameUIEntity {
     this.sprites.set('pips', spriteFromName('UPDATEC.MIX/hpips.png'));
     this.sprites.set('clock', spriteFromName('UPDATEC.MIX/hclock.png'));
     await super.init();
-
-    this.on('placed', item => {
-      this.queue.reset(item);
-    });
   }
 
   public emit(name: string, ...args: any[]): void {
@@ -864,9 +864,9 @@ export class UIConstruction extends GameUIEntity {
     if (found) {
       if (button === 'right') {
         if (found.state === 'hold' || found.state === 'ready') {
-          this.queue.cancel(found);
+          this.emit('cancel', found);
         } else {
-          this.queue.hold(found);
+          this.emit('hold', found);
         }
       } else {
         if (found.state === 'ready') {
@@ -874,7 +874,7 @@ export class UIConstruction extends GameUIEntity {
             this.emit('place', found);
           }
         } else {
-          this.queue.build(found);
+          this.emit('build', found);
         }
       }
     }
@@ -887,7 +887,6 @@ export class UIConstruction extends GameUIEntity {
       return;
     }
 
-    this.queue.onUpdate(deltaTime);
     super.onUpdate(deltaTime);
 
     // FIXME: Check length of items > 0
@@ -958,6 +957,90 @@ export class UIConstruction extends GameUIEntity {
   }
 }
 
+/**
+ * Renders the map and its entities scaled down to the given dimension.
+ * Returns the scaling ratio.
+ */
+export const renderMinimap = (map: GameMap, context: CanvasRenderingContext2D, dimension: Vector): number => {
+  const { sx, sy, sw, sh, dx, dy, dw, dh, bR } = getScaledDimensions(map.getDimension(), dimension);
+
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, dimension.x, dimension.y);
+  context.drawImage(map.getCanvas(), sx, sy, sw, sh, dx, dy, dw, dh);
+
+  map.getEntities()
+    .forEach(e => {
+      const p = e.getPosition();
+      const d = e.getDimension();
+      const x = Math.trunc(p.x * bR) + dx;
+      const y = Math.trunc(p.y * bR) + dy;
+      const w = Math.trunc(d.x * bR);
+      const h = Math.trunc(d.y * bR);
+      context.fillStyle = e.getColor();
+      context.fillRect(x, y, w, h);
+    });
+
+  const d = map.getDimension();
+  if (map.isFowVisible()) {
+    context.drawImage(map.getViewFow().getCanvas(), 0, 0, d.x, d.y, 0, 0, dimension.x, dimension.y);
+  }
+
+  return bR;
+};
+
+/**
+ * Creates a minimap image as a data URL
+ */
+export const createMinimapThumbnail = (map: GameMap, dimension: Vector = new Vector(SAVE_THUMBNAIL_WIDTH, SAVE_THUMBNAIL_HEIGHT)): string => {
+  const canvas = createCanvas();
+  canvas.width = dimension.x;
+  canvas.height = dimension.y;
+
+  renderMinimap(map, canvas.getContext('2d') as CanvasRenderingContext2D, dimension);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Image from a data URL (ex. save game thumbnails)
+ */
+export class UIImage extends GameUIEntity {
+  private source?: string;
+
+  public constructor(name: string, dimension: Vector, position: Vector, ui: UIScene) {
+    super(name, position, ui);
+    this.setDimension(dimension);
+    this.clickable = false;
+  }
+
+  public setSource(source?: string): void {
+    this.source = source;
+    this.context.fillStyle = '#000000';
+    this.context.fillRect(0, 0, this.dimension.x, this.dimension.y);
+    this.updated = true;
+
+    if (source) {
+      const image = new Image();
+      image.onload = () => {
+        if (this.source === source) {
+          this.context.drawImage(image, 0, 0, this.dimension.x, this.dimension.y);
+          this.updated = true;
+        }
+      };
+      image.src = source;
+    }
+  }
+
+  public onRender(deltaTime: number, ctx: CanvasRenderingContext2D): void {
+    if (this.isVisible()) {
+      this.drawBorder('inset');
+      ctx.drawImage(this.canvas, this.position.x, this.position.y);
+    }
+
+    this.updated = false;
+  }
+}
+
 /**
  * Minimap
  */
@@ -981,30 +1064,8 @@ export class UIMinimap extends GameUIEntity {
     }
 
     if (this.ui.engine.frames % 6 === 0 && !this.ui.isMenuOpen()) {
-      const { sx, sy, sw, sh, dx, dy, dw, dh, bR } = getScaledDimensions(this.map.getDimension(), this.dimension);
-
-      this.context.fillStyle = '#000000';
-      this.context.fillRect(0, 0, this.dimension.x, this.dimension.y);
-      this.context.drawImage(this.map.getCanvas(), sx, sy, sw, sh, dx, dy, dw, dh);
-
-      this.map.getEntities()
-        .forEach(e => {
-          const p = e.getPosition();
-          const d = e.getDimension();
-          const x = Math.trunc(p.x * bR) + dx;
-          const y = Math.trunc(p.y * bR) + dy;
-          const w = Math.trunc(d.x * bR);
-          const h = Math.trunc(d.y * bR);
-          this.context.fillStyle = e.getColor();
-          this.context.fillRect(x, y, w, h);
-        });
-
+      const bR = renderMinimap(this.map, this.context, this.dimension);
       const p = this.map.getPosition();
-      const d = this.map.getDimension();
-      if (this.map.isFowVisible()) {
-        this.context.drawImage(this.map.fow.getCanvas(), 0, 0, d.x, d.y, 0, 0, this.dimension.x, this.dimension.y);
-      }
-
       const v = this.ui.getViewport();
       const w = (v.x2 - v.x1) * bR;
       const h = (v.y2 - v.y1) * bR;
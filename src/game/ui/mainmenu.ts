@@ -3,7 +3,7 @@
  * @author Anders Evenrud <andersevenrud@gmail.com>
  * @license MIT
  */
-import { UIScene } from '../../engine';
+import { UIScene, requestLoadFile } from '../../engine';
 import { MenuScene } from '../scenes/menu';
 import { GameEngine } from '../game';
 import { UIBox, UIButton, UIIconButton, UIText, UISlider, UIListView } from './elements';
@@ -159,8 +159,14 @@ export class MainMenuUI extends UIScene {
     menu.addChild(new UIText('title', 'andersevenrud@gmail.com', '6point', new Vector(0.5, 220), this));
     menu.addChild(new UIText('title', `v${packageJson.version}`, '6point', new Vector(0.5, 240), this));
 
+    const btnContinue = menu.addChild(new UIButton('continue-game', 'Continue Campaign', new Vector(250, 24), new Vector(25, 48), this));
     const btnNew = menu.addChild(new UIButton('new-game', 'Start New Game', new Vector(250, 24), new Vector(25, 80), this));
     const btnControls = menu.addChild(new UIButton('game-settings', 'Game Controls', new Vector(250, 24), new Vector(25, 112), this));
+    const btnReplay = menu.addChild(new UIButton('load-replay', 'Load Replay', new Vector(250, 24), new Vector(25, 144), this));
+
+    btnContinue.on('click', () => {
+      this.scene.onContinueCampaign();
+    });
 
     btnNew.on('click', () => {
       this.scene.onNewGame();
@@ -171,6 +177,14 @@ export class MainMenuUI extends UIScene {
       menu.setVisible(false);
     });
 
+    btnReplay.on('click', async () => {
+      const str = await requestLoadFile();
+      this.scene.onLoadReplay(JSON.parse(str));
+    });
+
+    const campaign = await this.scene.engine.saves.loadCampaign();
+    btnContinue.setDisabled(!campaign);
+
     settings.setVisible(false);
     visuals.setVisible(false);
     sounds.setVisible(false);
@@ -4,22 +4,30 @@
  * @license MIT
  */
 import { UIScene } from '../../engine';
-import { UIBox, UIButton } from './elements';
+import { UIBox, UIButton, UIText } from './elements';
 import { MapSelectionScene } from '../scenes/map';
-import { MIXTeamName, gdiMaps, nodMaps } from '../mix';
 import { Vector } from 'vector2d';
 
 export class MapSelectionUI extends UIScene {
   public readonly scene: MapSelectionScene;
   private readonly list: string[];
 
-  public constructor(teamName: MIXTeamName, scene: MapSelectionScene) {
+  public constructor(list: string[], scene: MapSelectionScene) {
     super(scene.engine);
     this.scene = scene;
-    this.list = teamName === 'nod' ? nodMaps : gdiMaps;
+    this.list = list;
   }
 
   public async init(): Promise<void> {
+    if (this.list.length === 0) {
+      const caption = new UIBox('caption', new Vector(300, 24), new Vector(0.5, 370), this);
+      caption.addChild(new UIText('caption-text', () => this.scene.getHoveredName(), '6point', new Vector(0.5, 6), this));
+      this.elements.push(caption);
+
+      await super.init();
+      return;
+    }
+
     const menu = new UIBox('menu', new Vector(300, 270), new Vector(0.5, 0.5), this);
 
     const margin = 10;
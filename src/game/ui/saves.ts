@@ -0,0 +1,143 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { UIBox, UIButton, UIText, UIListView, UIImage, SAVE_THUMBNAIL_WIDTH, SAVE_THUMBNAIL_HEIGHT } from './elements';
+import { TheatreUI } from './theatre';
+import { GameSaveSlot, QUICKSAVE_SLOT } from '../storage';
+import { Vector } from 'vector2d';
+
+export type SaveSlotsMode = 'save' | 'load' | 'delete';
+
+const formatTimestamp = (ts: number): string => {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/**
+ * Save game slot dialog. Open with `emit('show', mode)`, emits 'close' when done.
+ */
+export const createSaveSlotsMenu = (ui: TheatreUI, position: Vector): UIBox => {
+  const storage = ui.scene.engine.saves;
+  const ids = storage.getSlotIds();
+  const box = new UIBox('save-slots', new Vector(420, 230), position, ui);
+  let slots: GameSaveSlot[] = [];
+  let mode: SaveSlotsMode = 'save';
+  let busy = false;
+  let overwrite: string | undefined;
+  let message: string | undefined;
+
+  const titles = { save: 'Save mission', load: 'Load mission', delete: 'Delete mission' };
+  box.addChild(new UIText('title', () => titles[mode], '6point', new Vector(0.5, 6), ui));
+  const listView = box.addChild(new UIListView('save-slots_list', new Vector(250, 150), new Vector(18, 30), ui)) as UIListView;
+  const getSelectedId = (): string | undefined => ids[listView.getCurrent()];
+  const getSelected = (): GameSaveSlot | undefined => slots.find(s => s.id === getSelectedId());
+
+  const getInfo = (): string => {
+    const id = getSelectedId();
+    const slot = getSelected();
+
+    if (message) {
+      return message;
+    } else if (!id) {
+      return 'Select a slot';
+    } else if (!slot) {
+      return 'Empty slot';
+    }
+
+    return mode === 'save' ? 'Overwrites save' : slot.player;
+  };
+
+  const thumbnail = box.addChild(new UIImage('save-slots_thumbnail', new Vector(SAVE_THUMBNAIL_WIDTH, SAVE_THUMBNAIL_HEIGHT), new Vector(278, 30), ui)) as UIImage;
+  box.addChild(new UIText('save-slots_info', getInfo, '8point', new Vector(278, 134), ui));
+
+  const btnSave = box.addChild(new UIButton('save-slots_save', 'Save', new Vector(125, 18), new Vector(18, 200), ui));
+  const btnLoad = box.addChild(new UIButton('save-slots_load', 'Load', new Vector(125, 18), new Vector(18, 200), ui));
+  const btnDelete = box.addChild(new UIButton('save-slots_delete', 'Delete', new Vector(125, 18), new Vector(18, 200), ui));
+  const btnBack = box.addChild(new UIButton('save-slots_back', 'Back', new Vector(125, 18), new Vector(278, 200), ui));
+
+  const refresh = async (): Promise<void> => {
+    slots = await storage.list();
+
+    listView.setList(ids.map((id, index) => {
+      const slot = slots.find(s => s.id === id);
+      const label = id === QUICKSAVE_SLOT ? 'Quick' : String(index).padStart(2, ' ');
+      return slot
+        ? `${label} ${slot.name.toUpperCase()} ${formatTimestamp(slot.timestamp)}`
+        : `${label} -`;
+    }));
+
+    const slot = getSelected();
+    thumbnail.setSource(slot ? slot.thumbnail : undefined);
+  };
+
+  const run = (fn: () => Promise<void>) => async () => {
+    if (!busy && getSelectedId()) {
+      busy = true;
+      try {
+        await fn();
+      } finally {
+        busy = false;
+      }
+    }
+  };
+
+  listView.on('change', () => {
+    overwrite = undefined;
+    message = undefined;
+
+    const slot = getSelected();
+    thumbnail.setSource(slot ? slot.thumbnail : undefined);
+  });
+
+  box.on('show', (m: SaveSlotsMode) => {
+    mode = m;
+    overwrite = undefined;
+    message = undefined;
+    btnSave.setVisible(mode === 'save');
+    btnLoad.setVisible(mode === 'load');
+    btnDelete.setVisible(mode === 'delete');
+    box.setVisible(true);
+    refresh();
+  });
+
+  // NOTE: Overwriting a save needs a second click
+  btnSave.on('click', run(async () => {
+    const id = getSelectedId()!;
+    if (getSelected() && overwrite !== id) {
+      overwrite = id;
+      message = 'Save again to overwrite';
+      return;
+    }
+
+    overwrite = undefined;
+    message = await ui.scene.saveGame(id) ? undefined : 'Failed to save. Storage full?';
+    await refresh();
+  }));
+
+  btnLoad.on('click', run(async () => {
+    if (!getSelected()) {
+      return;
+    } else if (await ui.scene.loadGame(getSelectedId()!)) {
+      box.setVisible(false);
+      box.emit('close', true);
+    } else {
+      message = 'Failed to load';
+    }
+  }));
+
+  btnDelete.on('click', run(async () => {
+    await storage.remove(getSelectedId()!);
+    await refresh();
+  }));
+
+  btnBack.on('click', () => {
+    box.setVisible(false);
+    box.emit('close', false);
+  });
+
+  box.setDecorations(1);
+  return box;
+};
@@ -0,0 +1,61 @@
+/**
+ * cnsjs - JavaScript C&C Remake
+ * @author Anders Evenrud <andersevenrud@gmail.com>
+ * @license MIT
+ */
+import { UIScene } from '../../engine';
+import { UIText } from './elements';
+import { ScoreScene, SCORE_BARS, SCORE_BAR_X, SCORE_BAR_SPACING } from '../scenes/score';
+import { Vector } from 'vector2d';
+
+const formatTime = (s: number) => [
+  Math.floor(s / 3600),
+  ('0' + Math.floor(s / 60) % 60).slice(-2),
+  ('0' + Math.floor(s % 60)).slice(-2)
+].join(':');
+
+export class ScoreUI extends UIScene {
+  public readonly scene: ScoreScene;
+
+  public constructor(scene: ScoreScene) {
+    super(scene.engine);
+    this.scene = scene;
+  }
+
+  public async init(): Promise<void> {
+    const { score } = this.scene.screen;
+
+    // NOTE: The screen is rendered at half of the UI resolution
+    if (score) {
+      const tally = (value: number) => () => String(this.scene.screen.getTally(value));
+      const text = (name: string, label: string | Function, x: number, y: number) =>
+        this.elements.push(new UIText(name, label, '6point', new Vector(x * 2, y * 2), this));
+
+      text('label-time', 'Time', 20, 40);
+      text('value-time', () => formatTime(this.scene.screen.getTally(score.time)), 120, 40);
+      text('label-leadership', 'Leadership', 20, 56);
+      text('value-leadership', () => `${this.scene.screen.getTally(score.leadership)}%`, 120, 56);
+      text('label-credits', 'Ending credits', 20, 72);
+      text('value-credits', tally(score.credits), 120, 72);
+      text('label-harvested', 'Harvested', 20, 88);
+      text('value-harvested', tally(score.houses.filter(h => h.player === score.player).reduce((a, h) => a + h.harvested, 0)), 120, 88);
+
+      SCORE_BARS.forEach(([y, key]) => {
+        text(`label-${key}`, key === 'unitsLost' ? 'Casualties' : 'Buildings lost', 20, y - 12);
+
+        score.houses.forEach((house, index) => {
+          const by = y + index * SCORE_BAR_SPACING;
+          text(`house-${key}-${index}`, house.team.toUpperCase(), 100, by);
+          text(`value-${key}-${index}`, tally(house[key]), SCORE_BAR_X + 124, by);
+        });
+      });
+    }
+
+    await super.init();
+  }
+
+  public onRender(deltaTime: number, ctx: CanvasRenderingContext2D): void {
+    this.context.clearRect(0, 0, this.dimension.x, this.dimension.y);
+    super.onRender(deltaTime, ctx);
+  }
+}
@@ -11,7 +11,6 @@ import {
   collideAABB,
   collidePoint,
   capitalize,
-  requestLoadFile,
   requestSaveFile
 } from '../../engine';
 import {
@@ -36,20 +35,15 @@ import {
   UIText,
   UIBox
 } from './elements';
-import {
-  buildableStructures,
-  buildableInfantry,
-  buildableUnits,
-  usableSpecials,
-  MIXMission,
-  MIXCursorType
-} from '../mix';
+import { MIXMission, MIXCursorType } from '../mix';
 import { TheatreScene } from '../scenes/theatre';
 import { createGameMenus } from './mainmenu';
+import { createSaveSlotsMenu, SaveSlotsMode } from './saves';
 import { GameEngine } from '../game';
 import { GameEntity } from '../entity';
 import { StructureMaskEntity } from '../entities/mask';
-import { ConstructionQueue } from './construction';
+import { ConstructionObject } from './construction';
+import { GameMapCommand, BuildCommandAction } from '../commands';
 import { cellFromPoint, isRectangleVisible } from '../physics';
 import { Vector } from 'vector2d';
 
@@ -84,26 +78,14 @@ export class TheatreUI extends UIScene {
   public async init(): Promise<void> {
     const theatre = this.scene.map.getTheatre();
     const player = this.scene.map.player;
-    const data = this.scene.map.getData();
-    const structures = [...buildableStructures];
-    const factories = [...buildableInfantry, ...buildableUnits, ...usableSpecials];
-
-    const structureConstruction = new ConstructionQueue(structures, player, this.scene.engine);
-    const factoryConstruction = new ConstructionQueue(factories, player, this.scene.engine);
-
-    if (data) {
-      structureConstruction.setBuildLevel(data.basic.BuildLevel);
-      structureConstruction.updateAvailable();
-
-      factoryConstruction.setBuildLevel(data.basic.BuildLevel);
-      factoryConstruction.updateAvailable();
-    }
+    const [structureConstruction, factoryConstruction] = this.scene.map.createConstructionQueues(player);
 
     // Tabs
     const emitCredits = () => String(player.getCredits());
     const tabMenu = new UITab('tab-menu', 'Menu', new Vector(0, 0), this);
     const tabCredits = new UITab('tab-credits', emitCredits, new Vector(-TAB_WIDTH, 0), this);
     const tabSidebar = new UITab('tab-sidebar', 'Sidebar', new Vector(-0, 0), this);
+    const tabReplay = this.scene.playback ? new UITab('tab-replay', () => this.scene.playback!.toString(), new Vector(TAB_WIDTH, 0), this) : undefined;
 
     // Sidebar
     const cy = RADAR_HEIGHT + ACTION_HEIGHT + 6;
@@ -130,14 +112,16 @@ export class TheatreUI extends UIScene {
     menu.addChild(new UIText('title', 'Menu', '6point', new Vector(0.5, 6), this));
     const btnLoad = menu.addChild(new UIButton('load-mission', 'Load mission', new Vector(250, 18), new Vector(0.5, 40), this));
     const btnSave = menu.addChild(new UIButton('save-mission', 'Save mission', new Vector(250, 18), new Vector(0.5, 64), this));
-    menu.addChild(new UIButton('delete-mission', 'Delete mission', new Vector(250, 18), new Vector(0.5, 88), this));
+    const btnDelete = menu.addChild(new UIButton('delete-mission', 'Delete mission', new Vector(250, 18), new Vector(0.5, 88), this));
     const btnControls = menu.addChild(new UIButton('game-controls', 'Game Controls', new Vector(250, 18), new Vector(0.5, 112), this));
     const btnAbort = menu.addChild(new UIButton('abort-mission', 'Abort mission', new Vector(250, 18), new Vector(0.5, 136), this));
 
     const btnClose = menu.addChild(new UIButton('resume-mission', 'Resume mission', new Vector(125, 18), new Vector(18, 200), this));
     const btnRestate = menu.addChild(new UIButton('restate-mission', 'Restate', new Vector(125, 18), new Vector(282, 200), this));
+    const btnReplay = menu.addChild(new UIButton('save-replay', 'Save replay', new Vector(250, 18), new Vector(0.5, 160), this));
 
     const [settings, visuals, sounds] = createGameMenus(this, new Vector(0.5, 0.5), menu);
+    const saves = createSaveSlotsMenu(this, new Vector(0.5, 0.5));
 
     const restate = new UIBox('restate', new Vector(600, 170), new Vector(0.5, 0.5), this);
     restate.addChild(new UIText('title', 'Mission Statement', '6point', new Vector(0.5, 6), this));
@@ -153,6 +137,10 @@ export class TheatreUI extends UIScene {
 
     // Glue
     const onConstruct = (parent: UIConstruction) => (item: any) => {
+      if (this.scene.isReplay()) {
+        return;
+      }
+
       const name = item.name;
       this.placeConstruction = name;
       const mask = new StructureMaskEntity(name, this.scene.map);
@@ -168,6 +156,21 @@ export class TheatreUI extends UIScene {
       };
     };
 
+    const onBuild = (action: BuildCommandAction) => (item: ConstructionObject) => {
+      this.dispatch({
+        type: 'build',
+        player: player.getId(),
+        name: item.name,
+        action
+      });
+    };
+
+    [elStructures, elFactories].forEach(el => {
+      el.on('build', onBuild('build'));
+      el.on('hold', onBuild('hold'));
+      el.on('cancel', onBuild('cancel'));
+    });
+
     elStructures.on('place', onConstruct(elStructures));
     elStructuresUp.on('click', () => elStructures.moveUp());
     elStructuresDown.on('click', () => elStructures.moveDown());
@@ -176,12 +179,6 @@ export class TheatreUI extends UIScene {
     elFactoriesUp.on('click', () => elFactories.moveUp());
     elFactoriesDown.on('click', () => elFactories.moveDown());
 
-    factoryConstruction.on('spawn', item => {
-      const player = this.scene.map.player.getId();
-      this.scene.map.factory.spawn(item.type, item.name, player);
-      factoryConstruction.reset(item);
-    });
-
     const onTooltipOver = (root: UIEntity) => (position: Vector, text: string) => {
       const dimension = tooltip.getDimension();
       const newPosition = root.getRealPosition()
@@ -202,18 +199,31 @@ export class TheatreUI extends UIScene {
     elFactories.on('mouseover', onTooltipOver(elFactories));
     elFactories.on('mouseout', onTooltipOut);
 
-    btnSave.on('click', () => {
-      const data = this.scene.map.toJson();
-      const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
-      requestSaveFile(blob, 'cncjs-savegame.json');
-    });
+    const onSaves = (mode: SaveSlotsMode) => () => {
+      menu.setVisible(false);
+      saves.emit('show', mode);
+    };
 
-    btnLoad.on('click', async () => {
-      const str = await requestLoadFile();
-      const savefile = JSON.parse(str);
-      this.scene.map.init(savefile);
+    btnSave.on('click', onSaves('save'));
+    btnLoad.on('click', onSaves('load'));
+    btnDelete.on('click', onSaves('delete'));
+    btnSave.setDisabled(!this.scene.canSave());
+    btnLoad.setDisabled(!this.scene.canSave());
+
+    btnReplay.on('click', () => {
+      if (this.scene.recorder) {
+        const data = this.scene.recorder.toJson();
+        const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+        requestSaveFile(blob, 'cncjs-replay.json');
+      }
     });
 
+    btnReplay.setDisabled(!this.scene.recorder);
+
+    if (tabReplay) {
+      tabReplay.on('click', () => this.scene.playback!.nextViewPlayer());
+    }
+
     tabMenu.on('click', () => {
       menu.setVisible(true);
       this.menuOpen = true;
@@ -254,7 +264,7 @@ export class TheatreUI extends UIScene {
       settings.setVisible(true);
     });
 
-    btnClose.on('click', () => {
+    const closeMenu = () => {
       menu.setVisible(false);
       this.menuOpen = false;
 
@@ -262,6 +272,16 @@ export class TheatreUI extends UIScene {
       sidebar.setDisabled(false);
       elStructures.setDisabled(false);
       elFactories.setDisabled(false);
+    };
+
+    btnClose.on('click', closeMenu);
+
+    saves.on('close', (loaded: boolean) => {
+      if (loaded) {
+        closeMenu();
+      } else {
+        menu.setVisible(true);
+      }
     });
 
     btnRestate.on('click', () => {
@@ -280,17 +300,22 @@ export class TheatreUI extends UIScene {
     settings.setVisible(false);
     visuals.setVisible(false);
     sounds.setVisible(false);
+    saves.setVisible(false);
     menu.setVisible(false);
     tooltip.setVisible(false);
 
     this.elements.push(tabMenu);
     this.elements.push(tabCredits);
     this.elements.push(tabSidebar);
+    if (tabReplay) {
+      this.elements.push(tabReplay);
+    }
     this.elements.push(sidebar);
     this.elements.push(menu);
     this.elements.push(settings);
     this.elements.push(visuals);
     this.elements.push(sounds);
+    this.elements.push(saves);
     this.elements.push(restate);
     this.elements.push(tooltip);
 
@@ -367,17 +392,15 @@ export class TheatreUI extends UIScene {
     const type = this.scene.engine.mix.getType(name);
     const player = this.scene.map.player.getId();
 
-    if (name === 'ION') {
-      this.scene.map.factory.load('effect', { name: 'IONSFX', cell, player });
-    } else if (name === 'ATOM') {
-      this.scene.map.factory.load('effect', { name: 'ATOMSFX', cell, player });
+    if (['ION', 'ATOM', 'BOMB'].indexOf(name) !== -1) {
+      this.dispatch({ type: 'special', player, name, cell: cell.toObject() });
     } else if (type) {
       const mask = this.scene.map.getMask();
       if (mask && mask.isBlocked()) {
         return;
       }
 
-      this.scene.map.factory.load(type, { name, cell, player });
+      this.dispatch({ type: 'place', player, name, cell: cell.toObject() });
     }
 
     if (this.constructionCallback) {
@@ -411,41 +434,50 @@ export class TheatreUI extends UIScene {
     const hitTiberium = entities.find(e => e.isTiberium());
 
 
+    const player = map.player.getId();
+    const ids = selected.map(s => s.id);
+    const dispatch = (command: GameMapCommand) => this.dispatch(command);
+
     const action = this.cursorAction.name;
     if (hitEntity) {
       console.log('hitEntity', point, cell, hitEntity);
 
+      const target = hitEntity.id;
       if (action === 'select') {
         map.unselectEntities();
         hitEntity.setSelected(true);
       } else if (action === 'capture') {
-        selected.forEach(s => s.capture(hitEntity)); // FIXME
+        dispatch({ type: 'capture', player, entities: ids, target }); // FIXME
       } else if (action === 'enter') {
-        selected.forEach(s => s.canHarvest() && hitEntity.isRefinery()); // FIXME
+        dispatch({ type: 'enter', player, entities: ids, target });
       } else if (action === 'attack') {
-        selected.forEach((s, i) => s.attack(hitEntity, i === 0));
+        dispatch({ type: 'attack', player, entities: ids, target });
       } else if (action === 'sell') {
-        hitEntity.sell();
+        dispatch({ type: 'sell', player, target });
       } else if (action === 'repair') {
-        hitEntity.repair();
+        dispatch({ type: 'repair', player, target });
       } else if (action === 'expand') {
-        const deployable = selected.filter(s => s.isDeployable());
+        const deployable = selected.filter(s => s.isPlayer() && s.isDeployable());
         if (deployable.length > 0) {
-          deployable[0].deploy();
+          dispatch({ type: 'deploy', player, entities: [deployable[0].id] });
           this.toggleSidebar(true); // FIXME
         }
       }
     } else if (hitTiberium) {
       if (action === 'harvest' && hitTiberium) {
-        selected.forEach((s, i) => s.harvest(hitTiberium, i === 0));
+        dispatch({ type: 'harvest', player, entities: ids, target: hitTiberium.id });
       }
     } else {
       if (action === 'move') {
-        map.moveSelectedEntities(cell);
+        dispatch({ type: 'move', player, entities: ids, cell: cell.toObject() });
       }
     }
   }
 
+  private dispatch(command: GameMapCommand): void {
+    this.scene.dispatch(command);
+  }
+
   public toggleMinimap(toggle?: boolean): void {
     if (!this.minimap) {
       return;
@@ -582,16 +614,16 @@ export class TheatreUI extends UIScene {
     const canCapture = selected.some(s => s.canCapture());
     const canHarvest = selected.some(s => s.canHarvest());
     const cell = cellFromPoint(pos);
-    const revealed = map.isFowVisible() ? map.fow.isRevealedAt(cell) : true;
+    const revealed = map.isFowVisible() ? map.getViewFow().isRevealedAt(cell) : true;
 
     let cursorName: MIXCursorType = 'default';
     let actionName;
 
     if (!this.isMouseOutsideViewport()) {
       if (this.currentAction === 'sell') {
-        cursorName = hovering && hovering.isSellable() ? 'sell' : 'cannotSell';
+        cursorName = hovering && hovering.isPlayer() && hovering.isSellable() ? 'sell' : 'cannotSell';
       } else if (this.currentAction === 'repair') {
-        cursorName = hovering && hovering.isRepairable() ? 'repair' : 'cannotRepair';
+        cursorName = hovering && hovering.isPlayer() && hovering.isRepairable() ? 'repair' : 'cannotRepair';
       } else if (this.currentAction === 'ion') {
         cursorName = 'ion';
       } else if (this.currentAction === 'atom') {
@@ -599,7 +631,7 @@ export class TheatreUI extends UIScene {
       } else if (this.currentAction === 'bomb') {
         cursorName = 'bomb';
       } else {
-        if (hovering && selected.length > 0 && hovering.isCapturable() && canCapture) {
+        if (hovering && selected.length > 0 && !hovering.isPlayer() && hovering.isCapturable() && canCapture) {
           cursorName = revealed ? 'enter' : 'unavailable';
           if (cursorName === 'enter') {
             actionName = 'capture';
@@ -614,7 +646,7 @@ export class TheatreUI extends UIScene {
         } else if (hovering && selected.length > 0 && hovering.isAttackable(selected[0]) && canAttack) {
           cursorName = revealed ? 'attack' : 'move';
         } else if (revealed && hovering && hovering.isSelectable()) {
-          cursorName = selected[0] === hovering &&  hovering.isDeployable()
+          cursorName = selected[0] === hovering && hovering.isPlayer() && hovering.isDeployable()
             ? 'expand'
             : 'select';
         } else if (selected.length > 0) {
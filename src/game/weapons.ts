@@ -3,119 +3,16 @@
  * @author Anders Evenrud <andersevenrud@gmail.com>
  * @license MIT
  */
-import { Sprite, randomBetweenInteger }  from '../engine';
+import { Sprite }  from '../engine';
 import { GameMap } from './map';
 import { GameEntity } from './entity';
+import { ProjectileEntity } from './entities/projectile';
 import { MIXWeapon, MIXBullet, MIXWarhead, irrelevantBulletImages, humanDirections } from './mix';
-import { cellFromPoint, getDirection, CELL_SIZE } from './physics';
 import { spriteFromName } from './sprites';
 import { Vector } from 'vector2d';
 
-export class ProjectileEntity extends GameEntity {
-  protected readonly bulletName: string;
-  protected readonly bullet: MIXBullet;
-  protected readonly warhead: MIXWarhead;
-  protected readonly target: GameEntity;
-  protected readonly weapon: Weapon;
-  protected direction: number = 0;
-  protected trailTick: number = 0;
-
-  public constructor(name: string, target: GameEntity, weapon: Weapon) {
-    super(weapon.map);
-
-    this.target = target;
-    this.weapon = weapon;
-    this.bulletName = name;
-    this.bullet = weapon.map.engine.mix.bullets.get(name) as MIXBullet;
-    this.warhead = weapon.map.engine.mix.warheads.get(this.bullet.Warhead) as MIXWarhead;
-    this.dimension = weapon.sprite ? weapon.sprite.size.clone() as Vector : new Vector(CELL_SIZE, CELL_SIZE); //FIXME
-    this.position = weapon.entity.getPosition();
-    this.cell = cellFromPoint(this.position);
-  }
-
-  public destroy(): void {
-    if (this.destroyed) {
-      return;
-    }
-
-    super.destroy();
-
-    if (this.bullet.Explosion) {
-      this.map.factory.load('effect', {
-        name: this.bullet.Explosion,
-        cell: this.target.getCell()
-      }, (effect: any): void => effect.setCenterEntity(this));
-    }
-
-    this.weapon.map.removeEntity(this);
-  }
-
-  private createTrail(): void {
-    if (this.weapon.trailSprite && !this.destroyed) {
-      this.map.factory.load('effect', {
-        name: 'SMOKEY',
-        player: -1,
-        cell: this.cell
-      }, (effect: any): void => {
-        effect.setPosition(this.getPosition());
-        effect.setCenterEntity(this);
-      });
-    }
-  }
-
-  public onUpdate(deltaTime: number): void {
-    if (this.bullet.BulletSpeed === -1) {
-      this.onHit();
-    } else {
-      const speed = this.bullet.BulletSpeed / 18;
-      const directions = 32;
-      const position = this.position.clone() as Vector;
-      const targetPosition = this.target.getPosition();
-
-      const direction = getDirection(targetPosition, position, directions);
-      const angleRadians = (direction / directions) * 2 * Math.PI;
-      const vel = new Vector(speed * Math.sin(angleRadians), speed * Math.cos(angleRadians));
-      const distance = targetPosition.distance(position);
-
-      if (distance < speed) {
-        this.onHit();
-      } else {
-        if (this.trailTick <= 0) {
-          this.createTrail();
-          this.trailTick = randomBetweenInteger(4, 12);
-        }
-
-        this.position.subtract(vel);
-        this.direction = direction;
-        this.cell = cellFromPoint(this.position);
-      }
-    }
-
-    this.trailTick--;
-  }
-
-  public onRender(deltaTime: number): void {
-    if (this.weapon.sprite) {
-      const frame = new Vector(0, this.direction);
-      const context = this.weapon.map.overlay.getContext();
-      this.weapon.sprite.render(frame, this.position, context);
-    }
-  }
-
-  protected onHit(): void {
-    const damage = this.weapon.weapon.Damage;
-    const armor = this.target.getArmor();
-    const verses = this.warhead.Verses[armor];
-    const take = verses / 100;
-    const finalDamage = damage * take;
-
-    // TODO: Apparently if there's multiple units in same cell, you divide by three
-    this.target.takeDamage(finalDamage);
-    this.destroy();
-  }
-}
-
 export class Weapon {
+  public readonly name: string;
   public readonly weapon: MIXWeapon;
   public readonly map: GameMap;
   public readonly entity: GameEntity;
@@ -125,6 +22,7 @@ export class Weapon {
   private rof: number = 0;
 
   public constructor(name: string, map: GameMap, entity: GameEntity) {
+    this.name = name;
     this.map = map;
     this.weapon = map.engine.mix.weapons.get(name) as MIXWeapon;
     this.entity = entity;
@@ -142,7 +40,7 @@ export class Weapon {
     }
   }
 
-  public async init(): Promise<void> {
+  public async load(): Promise<void> {
     if (this.sprite) {
       await this.map.engine.loadArchiveSprite(this.sprite);
     }
@@ -153,7 +51,7 @@ export class Weapon {
   }
 
   protected fireProjectile(target: GameEntity): void {
-    const p = new ProjectileEntity(this.weapon.Projectile, target, this);
+    const p = new ProjectileEntity(this, target, this.map);
     this.map.addEntity(p);
     if (this.weapon.Report) {
       this.entity.playSfx(this.weapon.Report.toLowerCase());
@@ -182,7 +80,36 @@ export class Weapon {
     }
   }
 
+  /**
+   * Damages everything in a cell right away (ex. bombs dropped from aircraft)
+   */
+  public detonate(cell: Vector): void {
+    const bullet = this.map.engine.mix.bullets.get(this.weapon.Projectile) as MIXBullet;
+    const warhead = this.map.engine.mix.warheads.get(bullet.Warhead) as MIXWarhead;
+
+    this.map.getEntitiesFromCell(cell, (e: GameEntity) => (e.isUnit() || e.isInfantry() || e.isStructure()) && !e.isDestroyed())
+      .forEach(target => {
+        const verses = warhead.Verses[target.getArmor()];
+        target.takeDamage(this.weapon.Damage * (verses / 100), this.entity);
+      });
+
+    if (bullet.Explosion) {
+      this.map.factory.load('effect', {
+        name: bullet.Explosion,
+        cell
+      });
+    }
+  }
+
   public onUpdate(deltaTime: number): void {
     this.tick = (this.tick + 1) % this.rof;
   }
+
+  public setTick(tick: number): void {
+    this.tick = tick;
+  }
+
+  public getTick(): number {
+    return this.tick;
+  }
 }